@@ -0,0 +1,178 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { buildErrorResponse } from "./errorResponses";
+import {
+  apiKeyStore,
+  generateApiKey,
+  toApiKeySummary,
+} from "./apiKeyStore";
+import type { ApiKeyLimits, ApiKeyRecord } from "./apiKeyStore";
+import { DEFAULT_API_KEY_LIMITS } from "./apiKeyAuth";
+import { usageTracker } from "./usageTracker";
+
+export const adminRouter = Router();
+
+const ADMIN_TOKEN_HEADER = "X-Admin-Token";
+const MAX_KEY_NAME_LENGTH = 100;
+
+interface CreateApiKeyBody {
+  name: string;
+  rateLimitPerMinute?: number;
+  dailyExtractionQuota?: number | null;
+  dailyFileQuota?: number | null;
+  allowedOrigins?: string[] | null;
+}
+
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Admin endpoints are disabled unless ADMIN_API_TOKEN is set
+ */
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const provided = req.get(ADMIN_TOKEN_HEADER);
+  if (!expected || !provided || !tokensMatch(provided, expected)) {
+    const errorBody = buildErrorResponse(
+      "UNAUTHORIZED",
+      `A valid ${ADMIN_TOKEN_HEADER} header is required.`
+    );
+    return res.status(401).json(errorBody);
+  }
+  return next();
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Validate the limits in a create request, filling in defaults. Returns an
+ * error message for invalid input.
+ */
+const parseLimits = (body: CreateApiKeyBody): ApiKeyLimits | string => {
+  const { rateLimitPerMinute, dailyExtractionQuota, dailyFileQuota, allowedOrigins } = body;
+
+  if (rateLimitPerMinute !== undefined && !isPositiveInteger(rateLimitPerMinute)) {
+    return "'rateLimitPerMinute' must be a positive integer.";
+  }
+  for (const [field, value] of Object.entries({ dailyExtractionQuota, dailyFileQuota })) {
+    if (value !== undefined && value !== null && !isPositiveInteger(value)) {
+      return `'${field}' must be a positive integer or null for unlimited.`;
+    }
+  }
+  if (allowedOrigins !== undefined && allowedOrigins !== null) {
+    if (!Array.isArray(allowedOrigins) || allowedOrigins.length === 0) {
+      return "'allowedOrigins' must be a non-empty array of origins or null.";
+    }
+    for (const origin of allowedOrigins) {
+      let parsed: URL | undefined;
+      try {
+        parsed = typeof origin === "string" ? new URL(origin) : undefined;
+      } catch {
+        parsed = undefined;
+      }
+      if (!parsed || parsed.origin !== origin) {
+        return `'${String(origin)}' is not a valid origin (e.g. https://app.example.com).`;
+      }
+    }
+  }
+
+  return {
+    rateLimitPerMinute: rateLimitPerMinute ?? DEFAULT_API_KEY_LIMITS.rateLimitPerMinute,
+    dailyExtractionQuota:
+      dailyExtractionQuota === undefined
+        ? DEFAULT_API_KEY_LIMITS.dailyExtractionQuota
+        : dailyExtractionQuota,
+    dailyFileQuota:
+      dailyFileQuota === undefined ? DEFAULT_API_KEY_LIMITS.dailyFileQuota : dailyFileQuota,
+    allowedOrigins: allowedOrigins ?? null,
+  };
+};
+
+adminRouter.use("/admin", requireAdminToken);
+
+/**
+ * Issue a key. The plaintext key is only returned in this response.
+ */
+adminRouter.post(
+  "/admin/api-keys",
+  async (req: Request<unknown, unknown, CreateApiKeyBody>, res: Response, next: NextFunction) => {
+    const body = req.body ?? ({} as CreateApiKeyBody);
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        `'name' must be a non-empty string of at most ${MAX_KEY_NAME_LENGTH} characters.`
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    const limits = parseLimits(body);
+    if (typeof limits === "string") {
+      const errorBody = buildErrorResponse("INVALID_REQUEST", limits);
+      return res.status(400).json(errorBody);
+    }
+
+    const { key, keyHash, prefix } = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: randomUUID(),
+      name,
+      keyHash,
+      prefix,
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+      ...limits,
+    };
+    try {
+      await apiKeyStore.create(record);
+    } catch (error: unknown) {
+      return next(error);
+    }
+
+    return res.status(201).json({ ...toApiKeySummary(record), key });
+  }
+);
+
+adminRouter.get("/admin/api-keys", async (_req: Request, res: Response, next: NextFunction) => {
+  let records: ApiKeyRecord[];
+  try {
+    records = await apiKeyStore.list();
+  } catch (error: unknown) {
+    return next(error);
+  }
+  return res.status(200).json({
+    apiKeys: records.map((record) => ({
+      ...toApiKeySummary(record),
+      usage: usageTracker.get(record.id),
+    })),
+  });
+});
+
+/**
+ * Revoke a key. Revoked keys are kept so their usage history stays readable.
+ */
+adminRouter.delete(
+  "/admin/api-keys/:id",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const record = await apiKeyStore.get(req.params.id);
+      if (!record) {
+        const errorBody = buildErrorResponse(
+          "API_KEY_NOT_FOUND",
+          `No API key found with ID '${req.params.id}'.`
+        );
+        return res.status(404).json(errorBody);
+      }
+
+      const revoked = record.revokedAt
+        ? record
+        : await apiKeyStore.update(record.id, { revokedAt: new Date().toISOString() });
+      return res.status(200).json(toApiKeySummary(revoked ?? record));
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,91 @@
+import { Router, Request, Response } from "express";
+import type { DriveFile, DuplicateReportResponse } from "./fileTypes";
+import { buildErrorResponse, sendScrapeError } from "./errorResponses";
+import { parseExtractRequest } from "./extractRequest";
+import type { ExtractRequestBody } from "./extractRequest";
+import { getFolderListing } from "./folderCache";
+import { applyFileQuery, isDriveFileLike } from "./fileFilters";
+import { recordFilesListed } from "./apiKeyAuth";
+import { findDuplicates } from "./duplicateDetection";
+
+export const analyzeRouter = Router();
+
+const MAX_ANALYZE_FILES = 50000;
+
+interface AnalyzeRequestBody extends Partial<ExtractRequestBody> {
+  /** Analyze these files (e.g. from /extract) instead of listing a folder */
+  files?: DriveFile[];
+}
+
+/**
+ * Find copies in a posted file list, or in a folder tree (recursive unless
+ * `recursive: false`, filtered like /extract): same checksum, or the same
+ * name once "Copy of" / "(1)" markers are stripped
+ */
+analyzeRouter.post(
+  "/analyze/duplicates",
+  async (req: Request<unknown, unknown, AnalyzeRequestBody>, res: Response) => {
+    const { files, ...extractBody } = req.body ?? {};
+
+    if (files !== undefined) {
+      if (
+        !Array.isArray(files) ||
+        files.length === 0 ||
+        files.length > MAX_ANALYZE_FILES ||
+        !files.every(isDriveFileLike)
+      ) {
+        const errorBody = buildErrorResponse(
+          "INVALID_REQUEST",
+          `'files' must be an array of 1 to ${MAX_ANALYZE_FILES} files, each with a string 'id' and 'name'. 'size' must be a number and other metadata strings when present.`
+        );
+        return res.status(400).json(errorBody);
+      }
+      const responseBody: DuplicateReportResponse = findDuplicates(files);
+      return res.status(200).json(responseBody);
+    }
+
+    if (extractBody.pageToken !== undefined || extractBody.pageSize !== undefined) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "Pagination is not supported here; the whole folder is analyzed."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    const parsed = parseExtractRequest({
+      ...extractBody,
+      folderUrl: extractBody.folderUrl ?? "",
+      recursive: extractBody.recursive ?? true,
+    });
+
+    if (parsed.kind === "error") {
+      return res.status(parsed.status).json(parsed.body);
+    }
+
+    if (parsed.kind === "file") {
+      const errorBody = buildErrorResponse(
+        "INVALID_FOLDER_URL",
+        "The provided URL is a file link, not a folder link. Post 'files' to analyze individual files."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    try {
+      const { result } = await getFolderListing(parsed.folderId, parsed.options);
+      recordFilesListed(res, result.files.length);
+
+      const responseBody: DuplicateReportResponse = {
+        folderId: parsed.folderId,
+        source: result.source,
+        truncated: result.truncated,
+        ...(result.foldersBeyondMaxDepth > 0
+          ? { foldersBeyondMaxDepth: result.foldersBeyondMaxDepth }
+          : {}),
+        ...findDuplicates(applyFileQuery(result.files, parsed.query)),
+      };
+      return res.status(200).json(responseBody);
+    } catch (error: unknown) {
+      return sendScrapeError(res, error);
+    }
+  }
+);
@@ -0,0 +1,183 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import rateLimit from "express-rate-limit";
+import { buildErrorResponse } from "./errorResponses";
+import { apiKeyStore, hashApiKey } from "./apiKeyStore";
+import type { ApiKeyLimits, ApiKeyRecord, ApiKeyStore } from "./apiKeyStore";
+import { usageTracker } from "./usageTracker";
+import type { UsageTracker } from "./usageTracker";
+import { filesPerRequest } from "./metrics";
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+export const API_KEY_HEADER = "X-API-Key";
+
+// Off by default so existing anonymous clients keep working behind the IP limits
+const REQUIRE_API_KEY = process.env.REQUIRE_API_KEY === "true";
+
+export const DEFAULT_API_KEY_LIMITS: ApiKeyLimits = {
+  rateLimitPerMinute: Number(process.env.API_KEY_RATE_LIMIT) || 60,
+  dailyExtractionQuota: Number(process.env.API_KEY_DAILY_EXTRACTIONS) || 1000,
+  dailyFileQuota: Number(process.env.API_KEY_DAILY_FILES) || 100000,
+  allowedOrigins: null,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The API key that authenticated this request, if any
+ */
+export const getRequestApiKey = (res: Response): ApiKeyRecord | undefined =>
+  res.locals.apiKey as ApiKeyRecord | undefined;
+
+const secondsUntilNextUtcDay = (now = new Date()): number => {
+  const next = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((next - now.getTime()) / 1000);
+};
+
+/**
+ * Count files returned to the calling key against its daily file quota,
+ * and in the files-per-request metric
+ */
+export const recordFilesListed = (
+  res: Response,
+  count: number,
+  tracker: UsageTracker = usageTracker
+): void => {
+  filesPerRequest.observe({}, count);
+  const apiKey = getRequestApiKey(res);
+  if (apiKey && count > 0) {
+    tracker.record(apiKey.id, { files: count });
+  }
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Resolve the X-API-Key header to a key record. Unknown or revoked keys are
+ * rejected; requests without a key pass through unless REQUIRE_API_KEY=true.
+ */
+export const authenticateApiKey =
+  (store: ApiKeyStore = apiKeyStore): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const key = req.get(API_KEY_HEADER)?.trim();
+      if (!key) {
+        if (REQUIRE_API_KEY) {
+          const errorBody = buildErrorResponse(
+            "UNAUTHORIZED",
+            `An API key is required. Send it in the ${API_KEY_HEADER} header.`
+          );
+          return res.status(401).json(errorBody);
+        }
+        return next();
+      }
+
+      const record = await store.findByHash(hashApiKey(key));
+      if (!record || record.revokedAt) {
+        const errorBody = buildErrorResponse(
+          "UNAUTHORIZED",
+          "The API key is invalid or has been revoked."
+        );
+        return res.status(401).json(errorBody);
+      }
+
+      // Server-to-server calls send no Origin, so only browsers are restricted
+      const origin = req.get("Origin");
+      if (origin && record.allowedOrigins && !record.allowedOrigins.includes(origin)) {
+        const errorBody = buildErrorResponse(
+          "ORIGIN_NOT_ALLOWED",
+          `This API key cannot be used from origin '${origin}'.`
+        );
+        return res.status(403).json(errorBody);
+      }
+
+      res.locals.apiKey = record;
+      return next();
+    } catch (error: unknown) {
+      return next(error);
+    }
+  };
+
+/**
+ * Per-key rate limit; anonymous requests are left to the IP-based limiters
+ */
+export const apiKeyRateLimiter = rateLimit({
+  windowMs: 60000, // 1 minute
+  limit: (_req: Request, res: Response) =>
+    getRequestApiKey(res)?.rateLimitPerMinute ?? DEFAULT_API_KEY_LIMITS.rateLimitPerMinute,
+  keyGenerator: (_req: Request, res: Response) => `key:${getRequestApiKey(res)?.id}`,
+  skip: (_req: Request, res: Response) => !getRequestApiKey(res),
+  message: () =>
+    buildErrorResponse(
+      "RATE_LIMIT_EXCEEDED",
+      "This API key has exceeded its rate limit, please try again later."
+    ),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Count `folders` extractions (one per folder listed) against the calling
+ * key's daily quota. When that would go over either daily quota, sends a
+ * 429 and returns false without counting anything.
+ */
+export const chargeExtractions = (
+  res: Response,
+  folders: number,
+  tracker: UsageTracker = usageTracker
+): boolean => {
+  const apiKey = getRequestApiKey(res);
+  if (!apiKey || folders <= 0) {
+    return true;
+  }
+
+  const usage = tracker.get(apiKey.id);
+  const extractionsExhausted =
+    apiKey.dailyExtractionQuota !== null &&
+    usage.extractions + folders > apiKey.dailyExtractionQuota;
+  const filesExhausted =
+    apiKey.dailyFileQuota !== null && usage.filesListed >= apiKey.dailyFileQuota;
+
+  if (extractionsExhausted || filesExhausted) {
+    res.setHeader("Retry-After", secondsUntilNextUtcDay().toString());
+    const errorBody = buildErrorResponse(
+      "QUOTA_EXCEEDED",
+      extractionsExhausted && folders > 1
+        ? `Listing ${folders} folders would exceed this API key's daily extraction quota. Quotas reset at midnight UTC.`
+        : `This API key has used its daily ${extractionsExhausted ? "extraction" : "file"} quota. Quotas reset at midnight UTC.`,
+      {
+        usage,
+        requestedExtractions: folders,
+        dailyExtractionQuota: apiKey.dailyExtractionQuota,
+        dailyFileQuota: apiKey.dailyFileQuota,
+      }
+    );
+    res.status(429).json(errorBody);
+    return false;
+  }
+
+  tracker.record(apiKey.id, { extractions: folders });
+  return true;
+};
+
+/**
+ * Count a request as an extraction against the key's daily quota, rejecting
+ * it once either daily quota is used up. `countFolders` says how many
+ * folders the request lists; 0 lets it through uncounted.
+ */
+export const countExtraction =
+  (
+    countFolders: (req: Request) => number = () => 1,
+    tracker: UsageTracker = usageTracker
+  ): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (chargeExtractions(res, countFolders(req), tracker)) {
+      next();
+    }
+  };
@@ -0,0 +1,150 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface ApiKeyLimits {
+  rateLimitPerMinute: number;
+  /** Extraction requests per UTC day; null for unlimited */
+  dailyExtractionQuota: number | null;
+  /** Files returned by listings per UTC day; null for unlimited */
+  dailyFileQuota: number | null;
+  /** Browser origins allowed to use the key; null allows any */
+  allowedOrigins: string[] | null;
+}
+
+export interface ApiKeyRecord extends ApiKeyLimits {
+  id: string;
+  name: string;
+  /** SHA-256 of the key; the key itself is only shown once, when issued */
+  keyHash: string;
+  /** First characters of the key, to help people tell their keys apart */
+  prefix: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export type ApiKeySummary = Omit<ApiKeyRecord, "keyHash">;
+
+/**
+ * Persistence for API keys. Swap in a database-backed implementation by
+ * providing another ApiKeyStore.
+ */
+export interface ApiKeyStore {
+  create(record: ApiKeyRecord): Promise<void>;
+  get(id: string): Promise<ApiKeyRecord | undefined>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | undefined>;
+  list(): Promise<ApiKeyRecord[]>;
+  update(id: string, update: Partial<Omit<ApiKeyRecord, "id" | "keyHash">>): Promise<ApiKeyRecord | undefined>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const KEY_PREFIX = "dsk_";
+
+export const hashApiKey = (key: string): string =>
+  createHash("sha256").update(key, "utf8").digest("hex");
+
+export const generateApiKey = (): { key: string; keyHash: string; prefix: string } => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, KEY_PREFIX.length + 6) };
+};
+
+export const toApiKeySummary = ({ keyHash, ...rest }: ApiKeyRecord): ApiKeySummary => rest;
+
+// ============================================================================
+// FILE-BACKED STORE
+// ============================================================================
+
+/**
+ * Keeps every key in one JSON file. Fine for the handful of keys we issue;
+ * the file is re-read on first use and rewritten on every change.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private records: Map<string, ApiKeyRecord> | null = null;
+  // Serialises writes so concurrent changes can't interleave
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    const records = await this.load();
+    records.set(record.id, record);
+    await this.persist();
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | undefined> {
+    for (const record of (await this.load()).values()) {
+      if (record.keyHash === keyHash) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async update(
+    id: string,
+    update: Partial<Omit<ApiKeyRecord, "id" | "keyHash">>
+  ): Promise<ApiKeyRecord | undefined> {
+    const records = await this.load();
+    const record = records.get(id);
+    if (!record) {
+      return undefined;
+    }
+    const updated: ApiKeyRecord = { ...record, ...update };
+    records.set(id, updated);
+    await this.persist();
+    return updated;
+  }
+
+  private async load(): Promise<Map<string, ApiKeyRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    let parsed: ApiKeyRecord[] = [];
+    try {
+      parsed = JSON.parse(await fs.readFile(this.filePath, "utf8")) as ApiKeyRecord[];
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    // Another call may have finished loading while we were reading
+    if (!this.records) {
+      this.records = new Map(parsed.map((record) => [record.id, record]));
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...(this.records ?? new Map()).values()], null, 2);
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a half-written key file
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, { encoding: "utf8", mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+export const apiKeyStore: ApiKeyStore = new FileApiKeyStore(
+  process.env.API_KEYS_FILE || path.join(process.cwd(), "data", "api-keys.json")
+);
@@ -0,0 +1,266 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { Express } from "express";
+import * as XLSX from "xlsx";
+import { createApp } from "./app";
+import { createAppsScriptStandIn } from "./appsScriptStandIn";
+import { AppsScriptProvider } from "./appsScriptProvider";
+import { FixtureProvider } from "./fixtureProvider";
+import { env } from "./env";
+import type { DriveListingProvider } from "./driveListingProvider";
+import type { BatchExtractResponse, ExtractFilesResponse } from "./fileTypes";
+
+// Fixture IDs from fixtures/drive
+const NESTED_ROOT = "fixtureNestedRoot01";
+const FORBIDDEN_ROOT = "fixtureForbiddenRoot1";
+const SYLLABUS = "fixtureSyllabusPdf01";
+
+const STAND_IN_SECRET = "test-secret";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const listen = (app: Express): Promise<{ server: Server; baseUrl: string }> =>
+  new Promise((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}` });
+    });
+  });
+
+const close = (server: Server): Promise<void> =>
+  new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+
+const startApi = (provider: DriveListingProvider) =>
+  listen(
+    createApp(
+      { ...env, extractRateLimitPerMinute: 0, downloadRateLimitPerMinute: 0 },
+      provider
+    )
+  );
+
+const postJson = (baseUrl: string, path: string, body: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const folderUrl = (id: string) => `https://drive.google.com/drive/folders/${id}`;
+
+/**
+ * The same checks run against every provider: they all serve the fixtures
+ */
+const describeApi = (
+  name: string,
+  source: ExtractFilesResponse["source"],
+  setUp: () => Promise<{ baseUrl: string; tearDown: () => Promise<void> }>
+) =>
+  describe(name, () => {
+    let baseUrl = "";
+    let tearDown = async () => {};
+
+    before(async () => {
+      ({ baseUrl, tearDown } = await setUp());
+    });
+
+    after(() => tearDown());
+
+    describe("POST /api/extract", () => {
+      it("lists a folder tree recursively", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(NESTED_ROOT),
+          recursive: true,
+        });
+        assert.equal(response.status, 200);
+
+        const body = (await response.json()) as ExtractFilesResponse;
+        assert.equal(body.folderId, NESTED_ROOT);
+        assert.equal(body.source, source);
+
+        const byName = new Map(body.files.map((file) => [file.name, file]));
+        assert.ok(byName.has("Syllabus.pdf"));
+        assert.equal(byName.get("Copy of Syllabus.pdf")?.path, "Week 1");
+        assert.equal(byName.get("Chapter 1 notes")?.path, "Week 1/Readings");
+        assert.equal(byName.get("Lecture 2.mp4")?.path, "Week 2");
+        assert.equal(byName.get("Syllabus.pdf")?.size, 48213);
+      });
+
+      it("lists only the top level when not recursive", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(NESTED_ROOT),
+          recursive: false,
+        });
+        assert.equal(response.status, 200);
+
+        const body = (await response.json()) as ExtractFilesResponse;
+        assert.ok(body.files.some((file) => file.name === "Syllabus.pdf"));
+        assert.ok(!body.files.some((file) => file.name === "Copy of Syllabus.pdf"));
+      });
+
+      it("reports subfolders cut off by maxDepth", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(NESTED_ROOT),
+          recursive: true,
+          maxDepth: 1,
+        });
+        assert.equal(response.status, 200);
+
+        const body = (await response.json()) as ExtractFilesResponse;
+        assert.ok(body.files.some((file) => file.path === "Week 1"));
+        assert.ok(!body.files.some((file) => file.path === "Week 1/Readings"));
+        assert.equal(body.foldersBeyondMaxDepth, 1);
+        assert.match(body.message ?? "", /maxDepth/);
+      });
+
+      it("applies filters", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(NESTED_ROOT),
+          recursive: true,
+          filter: { include: ["pdf"] },
+        });
+        assert.equal(response.status, 200);
+
+        const body = (await response.json()) as ExtractFilesResponse;
+        assert.deepEqual(
+          body.files.map((file) => file.name).sort(),
+          ["Copy of Syllabus.pdf", "Syllabus.pdf"]
+        );
+      });
+
+      it("returns a single file for a file link", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: `https://drive.google.com/file/d/${SYLLABUS}/view`,
+        });
+        assert.equal(response.status, 200);
+
+        const body = (await response.json()) as ExtractFilesResponse;
+        assert.equal(body.fileId, SYLLABUS);
+        assert.deepEqual(body.files.map((file) => file.id), [SYLLABUS]);
+      });
+
+      it("rejects an invalid URL", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: "https://example.com/not-drive",
+        });
+        assert.equal(response.status, 400);
+        const body = (await response.json()) as { error: { code: string } };
+        assert.equal(body.error.code, "INVALID_FOLDER_URL");
+      });
+
+      it("reports an unshared folder as forbidden", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(FORBIDDEN_ROOT),
+        });
+        assert.equal(response.status, 403);
+        const body = (await response.json()) as { error: { code: string } };
+        assert.equal(body.error.code, "FOLDER_ACCESS_FORBIDDEN");
+      });
+
+      it("reports an unknown folder as not found", async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl("fixtureMissingFolder"),
+        });
+        assert.equal(response.status, 404);
+        const body = (await response.json()) as { error: { code: string } };
+        assert.equal(body.error.code, "FOLDER_NOT_FOUND");
+      });
+    });
+
+    describe("POST /api/export", () => {
+      const extractFiles = async () => {
+        const response = await postJson(baseUrl, "/api/extract", {
+          folderUrl: folderUrl(NESTED_ROOT),
+          recursive: true,
+        });
+        return ((await response.json()) as ExtractFilesResponse).files;
+      };
+
+      it("exports extracted files as an XLSX workbook", async () => {
+        const files = await extractFiles();
+        const response = await postJson(baseUrl, "/api/export", { files, duplicates: true });
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get("content-disposition") ?? "", /\.xlsx"/);
+
+        const workbook = XLSX.read(Buffer.from(await response.arrayBuffer()), { type: "buffer" });
+        assert.ok(workbook.SheetNames.includes("Files"));
+        assert.ok(workbook.SheetNames.includes("Duplicates"));
+
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Files);
+        assert.equal(rows.length, files.length);
+        assert.ok(rows.some((row) => row.Name === "Syllabus.pdf"));
+      });
+
+      it("exports filtered files as CSV", async () => {
+        const files = await extractFiles();
+        const response = await postJson(baseUrl, "/api/export", {
+          files,
+          format: "csv",
+          filter: { include: ["video"] },
+        });
+        assert.equal(response.status, 200);
+        assert.match(response.headers.get("content-type") ?? "", /text\/csv/);
+
+        const csv = await response.text();
+        assert.match(csv, /Lecture 2\.mp4/);
+        assert.doesNotMatch(csv, /Syllabus\.pdf/);
+      });
+
+      it("exports /extract/batch results with one sheet per folder", async () => {
+        const batchResponse = await postJson(baseUrl, "/api/extract/batch", {
+          folderUrls: [folderUrl(NESTED_ROOT), folderUrl(FORBIDDEN_ROOT)],
+        });
+        assert.equal(batchResponse.status, 200);
+        const batch = (await batchResponse.json()) as BatchExtractResponse;
+        assert.equal(batch.succeeded, 1);
+        assert.equal(batch.failed, 1);
+
+        const response = await postJson(baseUrl, "/api/export", {
+          results: batch.results,
+          format: "json",
+        });
+        assert.equal(response.status, 200);
+        const body = (await response.json()) as unknown;
+        assert.match(JSON.stringify(body), /Syllabus\.pdf/);
+      });
+
+      it("rejects malformed files", async () => {
+        const response = await postJson(baseUrl, "/api/export", { files: [null] });
+        assert.equal(response.status, 400);
+      });
+
+      it("rejects an unknown format", async () => {
+        const files = await extractFiles();
+        const response = await postJson(baseUrl, "/api/export", { files, format: "constructor" });
+        assert.equal(response.status, 400);
+      });
+    });
+  });
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describeApi("fixtures provider", "fixtures", async () => {
+  const { server, baseUrl } = await startApi(new FixtureProvider());
+  return { baseUrl, tearDown: () => close(server) };
+});
+
+describeApi("apps-script provider against the stand-in", "apps-script", async () => {
+  const standIn = await listen(
+    createAppsScriptStandIn(new FixtureProvider(), { secret: STAND_IN_SECRET })
+  );
+  const { server, baseUrl } = await startApi(
+    new AppsScriptProvider(standIn.baseUrl, STAND_IN_SECRET, "none")
+  );
+  return {
+    baseUrl,
+    tearDown: async () => {
+      await close(server);
+      await close(standIn.server);
+    },
+  };
+});
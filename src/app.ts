@@ -0,0 +1,170 @@
+import express, { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import cors from "cors";
+import { json } from "express";
+import rateLimit from "express-rate-limit";
+import type { Options as RateLimitOptions } from "express-rate-limit";
+import { extractRouter } from "./extractRoute";
+import { jobsRouter } from "./jobsRoute";
+import { downloadRouter } from "./downloadRoute";
+import { foldersRouter } from "./foldersRoute";
+import { watchesRouter } from "./watchesRoute";
+import { filesRouter } from "./filesRoute";
+import { usageRouter } from "./usageRoute";
+import { adminRouter } from "./adminRoute";
+import { authRouter } from "./authRoute";
+import { metricsRouter } from "./metricsRoute";
+import { healthRouter } from "./healthRoute";
+import { diagnosticsRouter } from "./diagnosticsRoute";
+import { analyzeRouter } from "./analyzeRoute";
+import { linksRouter } from "./linksRoute";
+import { assignRequestId } from "./requestContext";
+import { observeRequests } from "./metrics";
+import { logger } from "./logger";
+import { buildErrorResponse } from "./errorResponses";
+import {
+  authenticateApiKey,
+  apiKeyRateLimiter,
+  countExtraction,
+  getRequestApiKey,
+} from "./apiKeyAuth";
+import { env } from "./env";
+import type { EnvConfig } from "./env";
+import type { DriveListingProvider } from "./driveListingProvider";
+import { setDriveListingProvider } from "./driveProviderFactory";
+import { isOAuthConfigured } from "./googleOAuth";
+import { assertTokenEncryptionKey } from "./tokenCrypto";
+
+/**
+ * Per-IP, per-minute limiter; a limit of 0 turns it off
+ */
+const createLimiter = (
+  limit: number,
+  options: Partial<RateLimitOptions>
+): RequestHandler =>
+  limit > 0
+    ? rateLimit({
+        windowMs: 60000, // 1 minute
+        limit,
+        standardHeaders: true,
+        legacyHeaders: false,
+        ...options,
+      })
+    : (_req, _res, next) => next();
+
+/**
+ * Build the Express app without listening, so it can run in-process (tests,
+ * local tooling) as well as from index.ts. Passing a provider replaces the
+ * one DRIVE_PROVIDER would select.
+ */
+export const createApp = (
+  config: EnvConfig = env,
+  provider?: DriveListingProvider
+): Express => {
+  if (provider) {
+    setDriveListingProvider(provider);
+  }
+
+  // Sessions can't be saved without it, so refuse to start half-configured
+  if (isOAuthConfigured()) {
+    assertTokenEncryptionKey();
+  }
+
+  const app = express();
+
+  // Disable X-Powered-By header for security
+  app.disable("x-powered-by");
+
+  // Probes come every few seconds; keep them out of the request log and metrics
+  app.use(healthRouter);
+
+  // Correlation ID first so every log line and error body can carry it
+  app.use(assignRequestId);
+  app.use(observeRequests);
+
+  // CORS configuration - restrict to allowed origins
+  app.use(
+    cors({
+      origin: config.allowedOrigins.length > 0 ? config.allowedOrigins : true,
+      credentials: true,
+    })
+  );
+
+  app.use(json());
+
+  app.use(metricsRouter);
+
+  // Resolve X-API-Key before any limiter runs
+  app.use("/api", authenticateApiKey());
+
+  // IP-based rate limiting for anonymous requests; keyed requests use their own limit
+  const extractLimiter = createLimiter(config.extractRateLimitPerMinute, {
+    message: () =>
+      buildErrorResponse("RATE_LIMIT_EXCEEDED", "Too many requests, please try again later."),
+    skip: (_req, res) => Boolean(getRequestApiKey(res)),
+  });
+
+  // ZIP bundles download every file, so they get a much tighter limit that
+  // applies to keyed requests too
+  const downloadLimiter = createLimiter(config.downloadRateLimitPerMinute, {
+    message: () =>
+      buildErrorResponse("RATE_LIMIT_EXCEEDED", "Too many download requests, please try again later."),
+  });
+
+  app.use("/api", apiKeyRateLimiter);
+  app.use("/api/extract", extractLimiter);
+  app.use("/api/export", extractLimiter);
+  app.use("/api/download", downloadLimiter);
+  app.use("/api/folders", extractLimiter);
+  app.use("/api/files", extractLimiter);
+  app.use("/api/analyze", extractLimiter);
+  app.use("/api/links", extractLimiter);
+  // Only starting a job counts against the limit; status polling does not
+  app.post("/api/jobs", extractLimiter);
+  app.post("/api/watches", extractLimiter);
+  app.use("/auth", extractLimiter);
+
+  // Requests that list folders count against the key's daily quota, one
+  // extraction per folder. /extract/batch and /links/harvest charge per
+  // folder themselves once they know how many folders are valid. /export
+  // only formats files it is given, so it is never charged.
+  app.post(["/api/extract", "/api/extract/stream"], countExtraction());
+  app.post("/api/folders/:id/snapshots", countExtraction());
+  // Diffing two stored snapshots lists nothing
+  app.get(
+    "/api/folders/:id/diff",
+    countExtraction((req) => (typeof req.query.to === "string" && req.query.to ? 0 : 1))
+  );
+  app.get("/api/files/:id", countExtraction());
+  app.post("/api/jobs", countExtraction());
+  app.post("/api/watches", countExtraction());
+  // Analyzing posted files lists nothing
+  app.use("/api/analyze", countExtraction((req) => (req.body?.files !== undefined ? 0 : 1)));
+  // Only bundles of a folder list one; bundles of posted files just download
+  app.post(
+    "/api/download/zip",
+    countExtraction((req) => (req.body?.folderUrl !== undefined ? 1 : 0))
+  );
+
+  app.use("/api", extractRouter);
+  app.use("/api", jobsRouter);
+  app.use("/api", downloadRouter);
+  app.use("/api", foldersRouter);
+  app.use("/api", watchesRouter);
+  app.use("/api", filesRouter);
+  app.use("/api", usageRouter);
+  app.use("/api", adminRouter);
+  app.use("/api", diagnosticsRouter);
+  app.use("/api", analyzeRouter);
+  app.use("/api", linksRouter);
+  app.use("/auth", authRouter);
+
+  // Global error handler - sanitized output for production
+  app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    logger.error("Unhandled error", { error: err, method: req.method, path: req.path });
+    res.status(500).json(
+      buildErrorResponse("INTERNAL_ERROR", "Unexpected error occurred while processing request.")
+    );
+  });
+
+  return app;
+};
@@ -0,0 +1,356 @@
+import axios from "axios";
+import { google } from "googleapis";
+import type {
+  DriveListingProvider,
+  DriveItem,
+  DriveItemDetails,
+  DriveItemPage,
+  GetItemOptions,
+  ListFolderPageOptions,
+} from "./driveListingProvider";
+import { buildViewUrl, resolveShortcut, SHORTCUT_MIME_TYPE } from "./driveListingProvider";
+import type { DriveSharingInfo } from "./fileTypes";
+import { getAuthCredentials } from "./googleAuth";
+import { logger } from "./logger";
+import {
+  CircuitBreaker,
+  callUpstream,
+  classifyUpstreamError,
+  getUpstreamErrorInfo,
+} from "./upstreamResilience";
+import type { UpstreamSubject } from "./upstreamResilience";
+
+const log = logger.child({ module: "appsScript" });
+
+// ============================================================================
+// INTERFACE: Apps Script Web App Response
+// ============================================================================
+
+interface AppsScriptItem {
+  id: string;
+  name: string;
+  type: string; // mimeType
+  viewUrl: string;
+  downloadUrl?: string;
+  kind: "file" | "folder";
+  size?: number | null;
+  createdTime?: string | null;
+  modifiedTime?: string | null;
+  lastModifyingUser?: string | null;
+  md5Checksum?: string | null;
+  thumbnailLink?: string | null;
+  description?: string | null;
+  resourceKey?: string | null;
+  /** Shortcut target, from File.getTargetId() and friends */
+  targetId?: string | null;
+  targetMimeType?: string | null;
+  targetResourceKey?: string | null;
+  /** Only sent for single-item lookups */
+  parentId?: string | null;
+  /** Only sent when the request had `includeSharing`: File.getSharingAccess() */
+  sharingAccess?: AppsScriptSharingAccess | null;
+  /** Domain for DOMAIN / DOMAIN_WITH_LINK sharing */
+  sharingDomain?: string | null;
+  /** File.getOwner().getEmail() */
+  owner?: string | null;
+  /** From the Advanced Drive service */
+  copyRequiresWriterPermission?: boolean | null;
+}
+
+type AppsScriptSharingAccess =
+  | "ANYONE"
+  | "ANYONE_WITH_LINK"
+  | "DOMAIN"
+  | "DOMAIN_WITH_LINK"
+  | "PRIVATE";
+
+/**
+ * Web Apps always answer 200, so the script reports failures in the body.
+ * `code` is an HTTP status or a name such as "NOT_FOUND" or "RATE_LIMITED".
+ */
+interface AppsScriptErrorBody {
+  error?: string | { code?: string | number; message?: string };
+}
+
+interface AppsScriptResponse {
+  count: number;
+  items: AppsScriptItem[];
+  /** Only present when the Web App honoured `pageSize` and more items remain */
+  nextPageToken?: string;
+}
+
+interface AppsScriptItemResponse {
+  item: AppsScriptItem;
+}
+
+const SHARING_LEVELS: Record<AppsScriptSharingAccess, DriveSharingInfo["level"]> = {
+  ANYONE: "anyone-with-link",
+  ANYONE_WITH_LINK: "anyone-with-link",
+  DOMAIN: "domain",
+  DOMAIN_WITH_LINK: "domain",
+  PRIVATE: "restricted",
+};
+
+// Own keys only: the access value comes from the Web App
+const toSharingLevel = (access: unknown): DriveSharingInfo["level"] =>
+  typeof access === "string" && Object.prototype.hasOwnProperty.call(SHARING_LEVELS, access)
+    ? SHARING_LEVELS[access as AppsScriptSharingAccess]
+    : "unknown";
+
+const toSharingInfo = (item: AppsScriptItem): DriveSharingInfo => ({
+  level: toSharingLevel(item.sharingAccess),
+  domain: item.sharingDomain ?? null,
+  owner: item.owner ?? null,
+  viewersCanDownload:
+    typeof item.copyRequiresWriterPermission === "boolean"
+      ? !item.copyRequiresWriterPermission
+      : null,
+});
+
+const toDriveItem = (item: AppsScriptItem, includeSharing?: boolean): DriveItem => {
+  const driveItem: DriveItem = {
+    id: item.id,
+    name: item.name,
+    mimeType: item.type,
+    viewUrl: item.viewUrl,
+    downloadUrl: item.downloadUrl ?? null,
+    kind: item.kind,
+    size: typeof item.size === "number" ? item.size : null,
+    createdTime: item.createdTime ?? null,
+    modifiedTime: item.modifiedTime ?? null,
+    lastModifyingUser: item.lastModifyingUser ?? null,
+    md5Checksum: item.md5Checksum ?? null,
+    thumbnailLink: item.thumbnailLink ?? null,
+    description: item.description ?? null,
+    ...(item.resourceKey ? { resourceKey: item.resourceKey } : {}),
+    ...(includeSharing ? { sharing: toSharingInfo(item) } : {}),
+  };
+  return item.type === SHORTCUT_MIME_TYPE && item.targetId && item.targetMimeType
+    ? resolveShortcut(driveItem, {
+        id: item.targetId,
+        mimeType: item.targetMimeType,
+        resourceKey: item.targetResourceKey,
+      })
+    : driveItem;
+};
+
+const parseResponseData = <T>(data: unknown): T =>
+  (typeof data === "string" ? JSON.parse(data) : data) as T;
+
+const ERROR_CODE_STATUSES: Record<string, number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  PERMISSION_DENIED: 403,
+  RATE_LIMITED: 429,
+  RESOURCE_EXHAUSTED: 429,
+  TIMEOUT: 408,
+  DEADLINE_EXCEEDED: 408,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+};
+
+// Own keys only: the code comes from the Web App
+const toErrorStatus = (code: unknown): number | undefined => {
+  if (typeof code === "number") {
+    return code;
+  }
+  return typeof code === "string" && Object.prototype.hasOwnProperty.call(ERROR_CODE_STATUSES, code)
+    ? ERROR_CODE_STATUSES[code]
+    : undefined;
+};
+
+/**
+ * Turn an error reported in a Web App response body into one of our errors
+ */
+const toBodyError = (
+  bodyError: NonNullable<AppsScriptErrorBody["error"]>,
+  subject: UpstreamSubject
+): Error => {
+  const { code, message } =
+    typeof bodyError === "string" ? { code: undefined, message: bodyError } : bodyError;
+  return (
+    classifyUpstreamError({ status: toErrorStatus(code) }, subject) ??
+    new Error(`Apps Script Web App error: ${message ?? code ?? "unknown error"}`)
+  );
+};
+
+/**
+ * Errors that aren't about the upstream's health: missing or rejected
+ * service account credentials, or an unexpected failure
+ */
+const toUnexpectedError = (error: unknown, action: string): Error => {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    log.error("Authentication error: could not find key file");
+    return new Error("Missing credentials");
+  }
+  if (getUpstreamErrorInfo(error).reason === "invalid_grant") {
+    log.error("Authentication error: invalid credentials");
+    return new Error("Invalid service account credentials");
+  }
+  log.error("Error calling Apps Script Web App", { error });
+  return new Error(`${action}: ${error instanceof Error ? error.message : String(error)}`);
+};
+
+/**
+ * "none" posts without a Google token, for a Web App deployed to "Anyone"
+ * or the local stand-in (src/appsScriptStandIn.ts)
+ */
+export type AppsScriptAuthMode = "service-account" | "none";
+
+const parseAuthMode = (value: string | undefined): AppsScriptAuthMode => {
+  if (value === undefined || value === "" || value === "service-account") {
+    return "service-account";
+  }
+  if (value === "none") {
+    return "none";
+  }
+  throw new Error(`Invalid APPS_SCRIPT_AUTH '${value}'. Use "service-account" or "none".`);
+};
+
+// One breaker for every AppsScriptProvider: they all share the same Web App
+const breaker = new CircuitBreaker("apps-script");
+
+// ============================================================================
+// PROVIDER: Apps Script Web App proxy
+// ============================================================================
+
+/**
+ * Lists folders through the Apps Script Web App at APPS_SCRIPT_WEB_APP_URL,
+ * authenticated with the service account unless APPS_SCRIPT_AUTH=none
+ */
+export class AppsScriptProvider implements DriveListingProvider {
+  public readonly name = "apps-script" as const;
+
+  private readonly webAppUrl: string;
+  private readonly secret: string;
+
+  constructor(
+    webAppUrl = process.env.APPS_SCRIPT_WEB_APP_URL,
+    secret = process.env.APPS_SCRIPT_SECRET,
+    private readonly authMode: AppsScriptAuthMode = parseAuthMode(process.env.APPS_SCRIPT_AUTH)
+  ) {
+    if (!webAppUrl) {
+      throw new Error("Missing APPS_SCRIPT_WEB_APP_URL environment variable");
+    }
+    if (!secret) {
+      throw new Error("Missing APPS_SCRIPT_SECRET environment variable");
+    }
+    this.webAppUrl = webAppUrl;
+    this.secret = secret;
+  }
+
+  async listFolderPage(
+    folderId: string,
+    options: ListFolderPageOptions = {}
+  ): Promise<DriveItemPage> {
+    const subject: UpstreamSubject = { kind: "folder", id: folderId };
+    log.debug("Calling Apps Script Web App for folder", { folderId, pageToken: options.pageToken });
+
+    const result = await callUpstream(
+      (signal) =>
+        this.post<AppsScriptResponse>(
+          {
+            folderUrl: buildViewUrl(folderId, true, options.resourceKey),
+            pageToken: options.pageToken,
+            pageSize: options.pageSize,
+            resourceKey: options.resourceKey,
+            driveKind: options.driveKind,
+            includeSharing: options.includeSharing,
+          },
+          subject,
+          signal
+        ),
+      {
+        breaker,
+        subject,
+        onUnclassifiedError: (error) => toUnexpectedError(error, "Failed to scrape folder"),
+      }
+    );
+
+    if (!result || !result.items) {
+      log.error("Invalid response from Web App", { folderId });
+      throw new Error("Apps Script Web App returned invalid response");
+    }
+
+    log.debug("Web App returned folder page", { folderId, items: result.count });
+
+    return {
+      items: result.items.map((item) => toDriveItem(item, options.includeSharing)),
+      nextPageToken: result.nextPageToken ?? null,
+    };
+  }
+
+  /**
+   * Requires a Web App deployment that handles `action: "getItem"` and
+   * answers with `{ item }`, including `parentId`
+   */
+  async getItem(id: string, options: GetItemOptions = {}): Promise<DriveItemDetails> {
+    const subject: UpstreamSubject = { kind: "file", id };
+    log.debug("Calling Apps Script Web App for item", { fileId: id });
+
+    const result = await callUpstream(
+      (signal) =>
+        this.post<AppsScriptItemResponse>(
+          {
+            action: "getItem",
+            fileId: id,
+            resourceKey: options.resourceKey,
+            includeSharing: options.includeSharing,
+          },
+          subject,
+          signal
+        ),
+      {
+        breaker,
+        subject,
+        onUnclassifiedError: (error) => toUnexpectedError(error, "Failed to get item"),
+      }
+    );
+
+    if (!result || !result.item || !result.item.id) {
+      log.error("Invalid item response from Web App", { fileId: id });
+      throw new Error("Apps Script Web App returned invalid response");
+    }
+
+    return {
+      ...toDriveItem(result.item, options.includeSharing),
+      parentId: result.item.parentId ?? null,
+    };
+  }
+
+  /**
+   * POST to the Web App (as the service account unless auth is off),
+   * throwing errors reported in the response body
+   */
+  private async post<T>(
+    data: Record<string, unknown>,
+    subject: UpstreamSubject,
+    signal: AbortSignal
+  ): Promise<T> {
+    const body = { ...data, secret: this.secret };
+    const headers = { "Content-Type": "application/json" };
+
+    let response: { data: unknown };
+    if (this.authMode === "none") {
+      response = await axios.post(this.webAppUrl, body, { headers, signal });
+    } else {
+      const auth = new google.auth.GoogleAuth(getAuthCredentials());
+      const client = await auth.getClient();
+      response = await client.request({
+        url: this.webAppUrl,
+        method: "POST",
+        data: body,
+        headers,
+        signal,
+        // callUpstream does the retrying
+        retry: false,
+      });
+    }
+
+    const result = parseResponseData<T & AppsScriptErrorBody>(response.data);
+    if (result?.error) {
+      throw toBodyError(result.error, subject);
+    }
+    return result;
+  }
+}
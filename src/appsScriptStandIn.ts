@@ -0,0 +1,172 @@
+import express, { Express, Request, Response, json } from "express";
+import type { DriveItem, DriveListingProvider } from "./driveListingProvider";
+import { extractFolderId } from "./extractFolderId";
+import { FixtureProvider } from "./fixtureProvider";
+import { logger } from "./logger";
+import {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  UpstreamRateLimitedError,
+  UpstreamTimeoutError,
+  UpstreamUnavailableError,
+} from "./scrapeErrors";
+
+const log = logger.child({ module: "appsScriptStandIn" });
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * The body AppsScriptProvider posts: a folder page request, or a single
+ * item lookup when `action` is "getItem"
+ */
+interface StandInRequestBody {
+  secret?: string;
+  action?: string;
+  folderUrl?: string;
+  fileId?: string;
+  pageToken?: string;
+  pageSize?: number;
+  resourceKey?: string;
+  includeSharing?: boolean;
+}
+
+export interface AppsScriptStandInOptions {
+  /** Must match APPS_SCRIPT_SECRET on the backend */
+  secret: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SHARING_ACCESS = {
+  "anyone-with-link": "ANYONE_WITH_LINK",
+  domain: "DOMAIN_WITH_LINK",
+  restricted: "PRIVATE",
+  unknown: null,
+} as const;
+
+const toAppsScriptItem = (item: DriveItem) => ({
+  id: item.id,
+  name: item.name,
+  type: item.mimeType,
+  viewUrl: item.viewUrl,
+  ...(item.downloadUrl ? { downloadUrl: item.downloadUrl } : {}),
+  kind: item.kind,
+  size: item.size,
+  createdTime: item.createdTime,
+  modifiedTime: item.modifiedTime,
+  lastModifyingUser: item.lastModifyingUser,
+  md5Checksum: item.md5Checksum,
+  thumbnailLink: item.thumbnailLink,
+  description: item.description,
+  resourceKey: item.resourceKey ?? null,
+  ...(item.sharing
+    ? {
+        sharingAccess: SHARING_ACCESS[item.sharing.level],
+        sharingDomain: item.sharing.domain,
+        owner: item.sharing.owner,
+        copyRequiresWriterPermission:
+          item.sharing.viewersCanDownload === null ? null : !item.sharing.viewersCanDownload,
+      }
+    : {}),
+});
+
+/**
+ * Report a provider error the way the Web App does: HTTP 200 with
+ * `{ error: { code, message } }` in the body
+ */
+const toErrorBody = (error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof FolderNotFoundError || error instanceof FileNotFoundError) {
+    return { error: { code: "NOT_FOUND", message } };
+  }
+  if (error instanceof PublicAccessForbiddenError) {
+    return { error: { code: "FORBIDDEN", message } };
+  }
+  if (error instanceof UpstreamRateLimitedError) {
+    return { error: { code: "RATE_LIMITED", message } };
+  }
+  if (error instanceof UpstreamTimeoutError) {
+    return { error: { code: "TIMEOUT", message } };
+  }
+  if (error instanceof UpstreamUnavailableError) {
+    return { error: { code: "UNAVAILABLE", message } };
+  }
+  return { error: message };
+};
+
+// ============================================================================
+// STAND-IN WEB APP
+// ============================================================================
+
+/**
+ * Local stand-in for the Apps Script Web App, answering from `provider`
+ * (fixtures by default). Point the backend at it with
+ * APPS_SCRIPT_WEB_APP_URL and APPS_SCRIPT_AUTH=none to exercise the
+ * apps-script provider end to end without deploying a script.
+ */
+export const createAppsScriptStandIn = (
+  provider: DriveListingProvider,
+  { secret }: AppsScriptStandInOptions
+): Express => {
+  const app = express();
+  app.use(json());
+
+  app.post("*", async (req: Request<unknown, unknown, StandInRequestBody>, res: Response) => {
+    const body = req.body ?? {};
+
+    if (body.secret !== secret) {
+      return res.json({ error: "Invalid secret" });
+    }
+
+    try {
+      if (body.action === "getItem") {
+        if (!body.fileId) {
+          return res.json({ error: "Missing fileId" });
+        }
+        const item = await provider.getItem(body.fileId, {
+          resourceKey: body.resourceKey,
+          includeSharing: body.includeSharing,
+        });
+        return res.json({ item: { ...toAppsScriptItem(item), parentId: item.parentId } });
+      }
+
+      if (!body.folderUrl) {
+        return res.json({ error: "Missing folderUrl" });
+      }
+      const { folderId, resourceKey } = extractFolderId(body.folderUrl);
+      const page = await provider.listFolderPage(folderId, {
+        pageToken: body.pageToken,
+        pageSize: body.pageSize,
+        resourceKey: body.resourceKey ?? resourceKey,
+        includeSharing: body.includeSharing,
+      });
+      return res.json({
+        count: page.items.length,
+        items: page.items.map(toAppsScriptItem),
+        ...(page.nextPageToken ? { nextPageToken: page.nextPageToken } : {}),
+      });
+    } catch (error: unknown) {
+      return res.json(toErrorBody(error));
+    }
+  });
+
+  return app;
+};
+
+// Run directly: `npm run apps-script:stand-in`
+if (require.main === module) {
+  const port = Number(process.env.APPS_SCRIPT_STAND_IN_PORT) || 4100;
+  const secret = process.env.APPS_SCRIPT_SECRET;
+  if (!secret) {
+    throw new Error("Missing APPS_SCRIPT_SECRET environment variable");
+  }
+
+  createAppsScriptStandIn(new FixtureProvider(), { secret }).listen(port, () => {
+    log.info("Apps Script stand-in listening", { port });
+  });
+}
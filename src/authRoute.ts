@@ -0,0 +1,211 @@
+import { Router, Request, Response, CookieOptions } from "express";
+import { randomBytes, timingSafeEqual } from "crypto";
+import { buildErrorResponse } from "./errorResponses";
+import {
+  OAUTH_SCOPES,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_MS,
+  STATE_COOKIE,
+  createOAuthClient,
+  getSessionId,
+  getUserOAuthClient,
+  isOAuthConfigured,
+  parseCookies,
+} from "./googleOAuth";
+import { createSessionId, oauthSessionStore } from "./oauthSessionStore";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "auth" });
+
+export const authRouter = Router();
+
+const STATE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes to finish the consent screen
+
+const isProduction = process.env.NODE_ENV === "production";
+
+// The frontend calls the API cross-site, so in production the session cookie
+// must be SameSite=None (which browsers only accept with Secure)
+const sessionCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: isProduction,
+  sameSite: isProduction ? "none" : "lax",
+  path: "/",
+};
+
+// The state cookie only has to survive the top-level redirect back from Google
+const stateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: isProduction,
+  sameSite: "lax",
+  path: "/auth",
+};
+
+const sendOAuthNotConfigured = (res: Response): Response => {
+  const errorBody = buildErrorResponse(
+    "OAUTH_NOT_CONFIGURED",
+    "Google sign-in is not enabled on this server."
+  );
+  return res.status(503).json(errorBody);
+};
+
+const sendNotSignedIn = (res: Response): Response => {
+  const errorBody = buildErrorResponse("UNAUTHORIZED", "Not signed in with Google.");
+  return res.status(401).json(errorBody);
+};
+
+const statesMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Start sign-in: redirect to Google's consent screen asking for read-only Drive access
+ */
+authRouter.get("/google", (_req: Request, res: Response) => {
+  if (!isOAuthConfigured()) {
+    return sendOAuthNotConfigured(res);
+  }
+
+  const state = randomBytes(24).toString("base64url");
+  res.cookie(STATE_COOKIE, state, { ...stateCookieOptions, maxAge: STATE_MAX_AGE_MS });
+
+  const authUrl = createOAuthClient().generateAuthUrl({
+    access_type: "offline",
+    // Always show consent so Google issues a refresh token, even on re-sign-in
+    prompt: "consent",
+    scope: OAUTH_SCOPES,
+    include_granted_scopes: false,
+    state,
+  });
+  return res.redirect(authUrl);
+});
+
+/**
+ * OAuth redirect target: exchange the code for tokens and start a session
+ */
+authRouter.get("/google/callback", async (req: Request, res: Response) => {
+  if (!isOAuthConfigured()) {
+    return sendOAuthNotConfigured(res);
+  }
+
+  const { code, state, error } = req.query;
+  const expectedState = parseCookies(req.headers.cookie)[STATE_COOKIE];
+  res.clearCookie(STATE_COOKIE, stateCookieOptions);
+
+  if (typeof error === "string") {
+    const errorBody = buildErrorResponse("UNAUTHORIZED", `Google sign-in failed: ${error}.`);
+    return res.status(401).json(errorBody);
+  }
+  if (
+    typeof state !== "string" ||
+    !expectedState ||
+    !statesMatch(state, expectedState)
+  ) {
+    const errorBody = buildErrorResponse(
+      "INVALID_REQUEST",
+      "Sign-in state is missing or does not match. Start again from /auth/google."
+    );
+    return res.status(400).json(errorBody);
+  }
+  if (typeof code !== "string" || !code) {
+    const errorBody = buildErrorResponse("INVALID_REQUEST", "Missing authorization code.");
+    return res.status(400).json(errorBody);
+  }
+
+  let tokens;
+  try {
+    ({ tokens } = await createOAuthClient().getToken(code));
+  } catch (exchangeError: unknown) {
+    log.warn("Code exchange failed", { error: exchangeError });
+    const errorBody = buildErrorResponse(
+      "UNAUTHORIZED",
+      "Google rejected the sign-in. Please try again."
+    );
+    return res.status(401).json(errorBody);
+  }
+
+  const now = new Date().toISOString();
+  const sessionId = createSessionId();
+  try {
+    // Replace any earlier session rather than leaving its tokens behind
+    const previousSessionId = getSessionId(req);
+    if (previousSessionId) {
+      await oauthSessionStore.delete(previousSessionId);
+    }
+    await oauthSessionStore.save({ id: sessionId, createdAt: now, updatedAt: now, tokens });
+  } catch (saveError: unknown) {
+    log.error("Could not save session", { error: saveError });
+    const errorBody = buildErrorResponse(
+      "INTERNAL_ERROR",
+      "Signed in with Google, but the session could not be saved. Please try again."
+    );
+    return res.status(500).json(errorBody);
+  }
+  res.cookie(SESSION_COOKIE, sessionId, { ...sessionCookieOptions, maxAge: SESSION_MAX_AGE_MS });
+
+  log.info("Google sign-in completed", { scope: tokens.scope });
+
+  const successRedirect = process.env.OAUTH_SUCCESS_REDIRECT;
+  if (successRedirect) {
+    return res.redirect(successRedirect);
+  }
+  return res.json({ signedIn: true, expiresAt: tokens.expiry_date ?? null });
+});
+
+/**
+ * Force a new access token from the stored refresh token
+ */
+authRouter.post("/refresh", async (req: Request, res: Response) => {
+  if (!isOAuthConfigured()) {
+    return sendOAuthNotConfigured(res);
+  }
+
+  const client = await getUserOAuthClient(req);
+  if (!client?.credentials.refresh_token) {
+    return sendNotSignedIn(res);
+  }
+
+  try {
+    // Refreshed tokens are persisted by the client's "tokens" listener
+    const { credentials } = await client.refreshAccessToken();
+    return res.json({ signedIn: true, expiresAt: credentials.expiry_date ?? null });
+  } catch (refreshError: unknown) {
+    // Usually invalid_grant: the user revoked access, so the session is useless
+    log.warn("Token refresh failed", { error: refreshError });
+    const sessionId = getSessionId(req);
+    if (sessionId) {
+      await oauthSessionStore.delete(sessionId).catch((deleteError: unknown) => {
+        log.warn("Could not delete session", { error: deleteError });
+      });
+    }
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+    const errorBody = buildErrorResponse(
+      "UNAUTHORIZED",
+      "Your Google session has expired. Please sign in again."
+    );
+    return res.status(401).json(errorBody);
+  }
+});
+
+/**
+ * Sign out: revoke the grant with Google (best effort) and forget the tokens
+ */
+authRouter.post("/logout", async (req: Request, res: Response) => {
+  const sessionId = getSessionId(req);
+  if (sessionId) {
+    const client = await getUserOAuthClient(req);
+    const token = client?.credentials.refresh_token ?? client?.credentials.access_token;
+    if (client && token) {
+      await client.revokeToken(token).catch((revokeError: unknown) => {
+        log.warn("Token revocation failed", { error: revokeError });
+      });
+    }
+    await oauthSessionStore.delete(sessionId).catch((deleteError: unknown) => {
+      log.warn("Could not delete session", { error: deleteError });
+    });
+  }
+
+  res.clearCookie(SESSION_COOKIE, sessionCookieOptions);
+  return res.status(204).end();
+});
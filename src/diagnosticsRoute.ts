@@ -0,0 +1,24 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { getDiagnostics } from "./healthChecks";
+import { requireAdminToken } from "./adminRoute";
+
+export const diagnosticsRouter = Router();
+
+/**
+ * Configuration and dependency state for operators, behind the admin token
+ * since it reveals how the server is set up. Secrets are only ever reported
+ * as present or missing.
+ */
+diagnosticsRouter.get(
+  "/diagnostics",
+  requireAdminToken,
+  async (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const diagnostics = await getDiagnostics();
+      res.setHeader("Cache-Control", "no-store");
+      return res.json(diagnostics);
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,147 @@
+import { Router, Request, Response, NextFunction } from "express";
+import type { DriveFile } from "./fileTypes";
+import { buildErrorResponse, sendScrapeError } from "./errorResponses";
+import { parseExtractRequest } from "./extractRequest";
+import { getFolderListing } from "./folderCache";
+import { applyFileQuery } from "./fileFilters";
+import { streamZipBundle, toZipSourceFile, DEFAULT_ZIP_LIMITS } from "./zipBundle";
+import type { ZipSourceFile } from "./zipBundle";
+import {
+  parseExportFormatPreferences,
+  InvalidExportFormatError,
+} from "./workspaceExports";
+import type { ExportFormatPreferences } from "./workspaceExports";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "downloadRoute" });
+
+export const downloadRouter = Router();
+
+interface ZipDownloadRequestBody {
+  /** DriveFile records from /extract (only id, name, mimeType, path, size are used) */
+  files?: DriveFile[];
+  fileIds?: string[];
+  /** Alternatively list a folder and bundle everything in it */
+  folderUrl?: string;
+  recursive?: boolean;
+  maxDepth?: number;
+  filter?: unknown;
+  sort?: unknown;
+  exportFormats?: unknown;
+}
+
+const FILE_ID_PATTERN = /^[A-Za-z0-9_-]{10,}$/;
+
+downloadRouter.post(
+  "/download/zip",
+  async (
+    req: Request<unknown, unknown, ZipDownloadRequestBody>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { files, fileIds, folderUrl } = req.body ?? {};
+
+    let exportFormats: ExportFormatPreferences | undefined;
+    try {
+      exportFormats = parseExportFormatPreferences(req.body?.exportFormats);
+    } catch (error: unknown) {
+      if (error instanceof InvalidExportFormatError) {
+        const errorBody = buildErrorResponse(error.code, error.message);
+        return res.status(400).json(errorBody);
+      }
+      return next(error);
+    }
+
+    let sources: ZipSourceFile[];
+
+    if (typeof folderUrl === "string" && folderUrl) {
+      const parsed = parseExtractRequest({ ...req.body, folderUrl });
+      if (parsed.kind === "error") {
+        return res.status(parsed.status).json(parsed.body);
+      }
+      if (parsed.kind === "file") {
+        const errorBody = buildErrorResponse(
+          "INVALID_FOLDER_URL",
+          "Use 'fileIds' to download individual files."
+        );
+        return res.status(400).json(errorBody);
+      }
+
+      try {
+        const { result } = await getFolderListing(parsed.folderId, parsed.options);
+        sources = applyFileQuery(result.files, parsed.query).map(toZipSourceFile);
+      } catch (error: unknown) {
+        return sendScrapeError(res, error);
+      }
+    } else if (Array.isArray(files) && files.length > 0) {
+      if (!files.every((file) => file && typeof file.id === "string" && FILE_ID_PATTERN.test(file.id))) {
+        const errorBody = buildErrorResponse(
+          "INVALID_REQUEST",
+          "Every entry in 'files' must have a valid Drive file 'id'."
+        );
+        return res.status(400).json(errorBody);
+      }
+      sources = files.map(toZipSourceFile);
+    } else if (Array.isArray(fileIds) && fileIds.length > 0) {
+      if (!fileIds.every((id) => typeof id === "string" && FILE_ID_PATTERN.test(id))) {
+        const errorBody = buildErrorResponse(
+          "INVALID_REQUEST",
+          "'fileIds' must contain valid Drive file IDs."
+        );
+        return res.status(400).json(errorBody);
+      }
+      sources = fileIds.map((id) => ({ id }));
+    } else {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "Request body must include a non-empty 'files' or 'fileIds' array, or a 'folderUrl'."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (sources.length === 0) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "There are no files to download."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    // Folders have no content of their own
+    sources = sources.filter(
+      (file) => file.mimeType !== "application/vnd.google-apps.folder"
+    );
+
+    let aborted = false;
+    res.on("close", () => {
+      aborted = true;
+    });
+
+    const filename = `drive-files-${Date.now()}.zip`;
+    res.status(200);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+    );
+    res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
+
+    try {
+      const summary = await streamZipBundle(sources, res, {
+        limits: DEFAULT_ZIP_LIMITS,
+        exportFormats,
+        isAborted: () => aborted,
+      });
+
+      log.info("ZIP finished", {
+        files: summary.filesAdded,
+        bytes: summary.bytesWritten,
+        errors: summary.errors.length,
+      });
+    } catch (error: unknown) {
+      log.error("ZIP streaming error", { error });
+      // Headers are already sent; all we can do is cut the response short
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+);
@@ -0,0 +1,252 @@
+import { google, drive_v3 } from "googleapis";
+import type { Auth } from "googleapis";
+import type {
+  DriveListingProvider,
+  DriveItem,
+  DriveItemDetails,
+  DriveItemPage,
+  GetItemOptions,
+  ListFolderPageOptions,
+} from "./driveListingProvider";
+import {
+  FOLDER_MIME_TYPE,
+  SHORTCUT_MIME_TYPE,
+  buildViewUrl,
+  resolveShortcut,
+} from "./driveListingProvider";
+import type { DriveSharingInfo } from "./fileTypes";
+import { logger } from "./logger";
+import { getAuthCredentials, DRIVE_READONLY_SCOPE } from "./googleAuth";
+import { FolderNotFoundError } from "./scrapeErrors";
+import { CircuitBreaker, callUpstream } from "./upstreamResilience";
+import type { UpstreamSubject } from "./upstreamResilience";
+
+const FILE_FIELDS = [
+  "id",
+  "name",
+  "mimeType",
+  "webViewLink",
+  "webContentLink",
+  "size",
+  "createdTime",
+  "modifiedTime",
+  "lastModifyingUser(displayName, emailAddress)",
+  "md5Checksum",
+  "thumbnailLink",
+  "description",
+  "resourceKey",
+  "shortcutDetails(targetId, targetMimeType, targetResourceKey)",
+].join(", ");
+// Permissions are only returned to callers allowed to see them; without
+// them the sharing level is "unknown"
+const SHARING_FIELDS = [
+  "owners(displayName, emailAddress)",
+  "copyRequiresWriterPermission",
+  "permissions(type, role, domain)",
+].join(", ");
+const MAX_PAGE_SIZE = 1000;
+
+const log = logger.child({ module: "driveApi" });
+
+// Shared by every DriveApiProvider, including per-user ones: it's all one API
+const breaker = new CircuitBreaker("drive-api");
+
+const toUnexpectedError = (error: unknown, action: string): Error => {
+  log.error(`Failed to ${action}`, { error });
+  return new Error(`Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`);
+};
+
+// Link-shared items from before Drive's 2021 security update need their resource key
+const requestOptions = (id: string, resourceKey: string | undefined, signal: AbortSignal) => ({
+  ...(resourceKey
+    ? { headers: { "X-Goog-Drive-Resource-Keys": `${id}/${resourceKey}` } }
+    : {}),
+  signal,
+  // callUpstream does the retrying
+  retry: false,
+});
+
+const fileFields = (includeSharing: boolean | undefined): string =>
+  includeSharing ? `${FILE_FIELDS}, ${SHARING_FIELDS}` : FILE_FIELDS;
+
+const toSharingInfo = (file: drive_v3.Schema$File): DriveSharingInfo => {
+  const permissions = file.permissions;
+  const domainPermission = permissions?.find((permission) => permission.type === "domain");
+  const owner = file.owners?.[0];
+  return {
+    level: !permissions
+      ? "unknown"
+      : permissions.some((permission) => permission.type === "anyone")
+        ? "anyone-with-link"
+        : domainPermission
+          ? "domain"
+          : "restricted",
+    domain: domainPermission?.domain ?? null,
+    owner: owner?.emailAddress ?? owner?.displayName ?? null,
+    viewersCanDownload:
+      typeof file.copyRequiresWriterPermission === "boolean"
+        ? !file.copyRequiresWriterPermission
+        : null,
+  };
+};
+
+const toDriveItem = (
+  file: drive_v3.Schema$File & { id: string },
+  includeSharing?: boolean
+): DriveItem => {
+  const isFolder = file.mimeType === FOLDER_MIME_TYPE;
+  const item: DriveItem = {
+    id: file.id,
+    name: file.name ?? file.id,
+    mimeType: file.mimeType ?? "application/octet-stream",
+    viewUrl:
+      file.webViewLink ??
+      buildViewUrl(file.id, isFolder, file.resourceKey ?? undefined),
+    downloadUrl: file.webContentLink ?? null,
+    kind: isFolder ? "folder" : "file",
+    ...(file.resourceKey ? { resourceKey: file.resourceKey } : {}),
+    size: file.size ? Number(file.size) : null,
+    createdTime: file.createdTime ?? null,
+    modifiedTime: file.modifiedTime ?? null,
+    lastModifyingUser:
+      file.lastModifyingUser?.displayName ??
+      file.lastModifyingUser?.emailAddress ??
+      null,
+    md5Checksum: file.md5Checksum ?? null,
+    thumbnailLink: file.thumbnailLink ?? null,
+    description: file.description ?? null,
+    ...(includeSharing ? { sharing: toSharingInfo(file) } : {}),
+  };
+
+  const target = file.shortcutDetails;
+  if (file.mimeType === SHORTCUT_MIME_TYPE && target?.targetId && target.targetMimeType) {
+    return resolveShortcut(item, {
+      id: target.targetId,
+      mimeType: target.targetMimeType,
+      resourceKey: target.targetResourceKey,
+    });
+  }
+  return item;
+};
+
+// ============================================================================
+// PROVIDER: Drive API v3
+// ============================================================================
+
+/**
+ * Lists folders directly with `drive.files.list`. Uses GOOGLE_API_KEY when set
+ * (enough for "Anyone with the link" folders), otherwise the service account.
+ * Pass a signed-in user's OAuth client to list what that user can see.
+ */
+export class DriveApiProvider implements DriveListingProvider {
+  public readonly name = "drive-api" as const;
+
+  private readonly drive: drive_v3.Drive;
+
+  constructor(credentials: string | Auth.OAuth2Client | undefined = process.env.GOOGLE_API_KEY) {
+    const auth = credentials
+      ? credentials
+      : new google.auth.GoogleAuth(getAuthCredentials([DRIVE_READONLY_SCOPE]));
+    this.drive = google.drive({ version: "v3", auth });
+  }
+
+  async listFolderPage(
+    folderId: string,
+    options: ListFolderPageOptions = {}
+  ): Promise<DriveItemPage> {
+    const subject: UpstreamSubject = { kind: "folder", id: folderId };
+    log.debug("Listing folder", { folderId, pageToken: options.pageToken });
+
+    const response = await callUpstream(
+      async (signal) => {
+        // files.list returns an empty page for unknown parents, so check the folder first
+        if (!options.pageToken) {
+          const folder = await this.drive.files.get(
+            {
+              fileId: folderId,
+              fields: "id, mimeType",
+              supportsAllDrives: true,
+            },
+            requestOptions(folderId, options.resourceKey, signal)
+          );
+          if (folder.data.mimeType !== FOLDER_MIME_TYPE) {
+            throw new FolderNotFoundError(`Folder ${folderId} not found`);
+          }
+        }
+
+        return this.drive.files.list(
+          {
+            q: `'${folderId}' in parents and trashed = false`,
+            fields: `nextPageToken, files(${fileFields(options.includeSharing)})`,
+            pageSize: Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+            pageToken: options.pageToken,
+            supportsAllDrives: true,
+            includeItemsFromAllDrives: true,
+            // The root of a Shared Drive is only listed within that drive's corpus
+            ...(options.driveKind === "shared-drive"
+              ? { corpora: "drive", driveId: folderId }
+              : {}),
+          },
+          requestOptions(folderId, options.resourceKey, signal)
+        );
+      },
+      {
+        breaker,
+        subject,
+        onUnclassifiedError: (error) => toUnexpectedError(error, "list folder"),
+      }
+    );
+
+    const items: DriveItem[] = [];
+    for (const file of response.data.files ?? []) {
+      if (!file.id) {
+        continue;
+      }
+      items.push(toDriveItem({ ...file, id: file.id }, options.includeSharing));
+    }
+
+    log.debug("Folder page listed", { folderId, items: items.length });
+
+    return {
+      items,
+      nextPageToken: response.data.nextPageToken ?? null,
+    };
+  }
+
+  async getItem(id: string, options: GetItemOptions = {}): Promise<DriveItemDetails> {
+    const subject: UpstreamSubject = { kind: "file", id };
+    log.debug("Getting item", { fileId: id });
+
+    const { data: file } = await callUpstream(
+      (signal) =>
+        this.drive.files.get(
+          {
+            fileId: id,
+            fields: `${fileFields(options.includeSharing)}, parents`,
+            supportsAllDrives: true,
+          },
+          requestOptions(id, options.resourceKey, signal)
+        ),
+      {
+        breaker,
+        subject,
+        onUnclassifiedError: (error) => toUnexpectedError(error, "get item"),
+      }
+    );
+
+    // Describe what the shortcut points at, not the shortcut itself
+    const target = file.shortcutDetails;
+    if (file.mimeType === SHORTCUT_MIME_TYPE && target?.targetId) {
+      const resolved = await this.getItem(target.targetId, {
+        resourceKey: target.targetResourceKey ?? undefined,
+        includeSharing: options.includeSharing,
+      });
+      return { ...resolved, name: file.name ?? resolved.name, shortcutId: id };
+    }
+
+    return {
+      ...toDriveItem({ ...file, id: file.id ?? id }, options.includeSharing),
+      parentId: file.parents?.[0] ?? null,
+    };
+  }
+}
@@ -0,0 +1,308 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { isDriveFileLink, parseDriveLink } from "./driveLinks";
+import type { DriveLink, DriveLinkErrorReason } from "./driveLinks";
+
+const FOLDER_ID = "1AbCdEfGhIjKlMnOpQrStUvWxYz012345";
+const FILE_ID = "1ZyXwVuTsRqPoNmLkJiHgFeDcBa987654";
+const SHARED_DRIVE_ID = "0AbCdEfGhIjKlMnOpQr";
+const RESOURCE_KEY = "0-AbCdEfGhIjKlMnOp";
+
+// ============================================================================
+// VALID LINKS
+// ============================================================================
+
+const VALID_CASES: { name: string; input: string; expected: DriveLink }[] = [
+  // Folders
+  {
+    name: "bare folder ID",
+    input: FOLDER_ID,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "bare ID with surrounding whitespace",
+    input: `  ${FOLDER_ID}\n`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link with sharing query",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}?usp=sharing`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link with trailing slash",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}/`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link for a second signed-in account",
+    input: `https://drive.google.com/drive/u/1/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "Workspace domain folder link",
+    input: `https://drive.google.com/a/example.com/drive/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "mobile folder link",
+    input: `https://drive.google.com/drive/mobile/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link without the /drive prefix",
+    input: `https://drive.google.com/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folderview link",
+    input: `https://drive.google.com/folderview?id=${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "embedded folder view",
+    input: `https://drive.google.com/embeddedfolderview?id=${FOLDER_ID}#grid`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "open?id= link",
+    input: `https://drive.google.com/open?id=${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "plain http folder link",
+    input: `http://drive.google.com/drive/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "upper-case host",
+    input: `https://DRIVE.GOOGLE.COM/drive/folders/${FOLDER_ID}`,
+    expected: { kind: "folder", id: FOLDER_ID },
+  },
+  {
+    name: "folder link with resource key",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}?resourcekey=${RESOURCE_KEY}`,
+    expected: { kind: "folder", id: FOLDER_ID, resourceKey: RESOURCE_KEY },
+  },
+  {
+    name: "folder link with camel-case resourceKey",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}?resourceKey=${RESOURCE_KEY}`,
+    expected: { kind: "folder", id: FOLDER_ID, resourceKey: RESOURCE_KEY },
+  },
+
+  // Shared Drives
+  {
+    name: "Shared Drive root",
+    input: `https://drive.google.com/drive/folders/${SHARED_DRIVE_ID}`,
+    expected: { kind: "shared-drive", id: SHARED_DRIVE_ID },
+  },
+  {
+    name: "Shared Drive root for a second account",
+    input: `https://drive.google.com/drive/u/0/folders/${SHARED_DRIVE_ID}`,
+    expected: { kind: "shared-drive", id: SHARED_DRIVE_ID },
+  },
+  {
+    name: "bare Shared Drive ID",
+    input: SHARED_DRIVE_ID,
+    expected: { kind: "shared-drive", id: SHARED_DRIVE_ID },
+  },
+
+  // Files
+  {
+    name: "file view link",
+    input: `https://drive.google.com/file/d/${FILE_ID}/view?usp=sharing`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "file link without an action",
+    input: `https://drive.google.com/file/d/${FILE_ID}`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "file preview link for a second account",
+    input: `https://drive.google.com/file/u/2/d/${FILE_ID}/preview`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "file link with resource key",
+    input: `https://drive.google.com/file/d/${FILE_ID}/view?resourcekey=${RESOURCE_KEY}`,
+    expected: { kind: "file", id: FILE_ID, resourceKey: RESOURCE_KEY },
+  },
+  {
+    name: "uc download link",
+    input: `https://drive.google.com/uc?export=download&id=${FILE_ID}`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "thumbnail link",
+    input: `https://drive.google.com/thumbnail?id=${FILE_ID}&sz=w400`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "usercontent download link",
+    input: `https://drive.usercontent.google.com/download?id=${FILE_ID}&export=download`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+  {
+    name: "docs.google.com uc link",
+    input: `https://docs.google.com/uc?id=${FILE_ID}`,
+    expected: { kind: "file", id: FILE_ID },
+  },
+
+  // Workspace documents
+  {
+    name: "Google Doc",
+    input: `https://docs.google.com/document/d/${FILE_ID}/edit`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "document",
+      mimeType: "application/vnd.google-apps.document",
+    },
+  },
+  {
+    name: "Google Doc for a second account",
+    input: `https://docs.google.com/document/u/1/d/${FILE_ID}/edit?usp=sharing`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "document",
+      mimeType: "application/vnd.google-apps.document",
+    },
+  },
+  {
+    name: "Google Sheet with a tab anchor",
+    input: `https://docs.google.com/spreadsheets/d/${FILE_ID}/edit#gid=0`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "spreadsheet",
+      mimeType: "application/vnd.google-apps.spreadsheet",
+    },
+  },
+  {
+    name: "Google Slides presentation",
+    input: `https://docs.google.com/presentation/d/${FILE_ID}/present`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "presentation",
+      mimeType: "application/vnd.google-apps.presentation",
+    },
+  },
+  {
+    name: "Google Form",
+    input: `https://docs.google.com/forms/d/${FILE_ID}/viewform`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "form",
+      mimeType: "application/vnd.google-apps.form",
+    },
+  },
+  {
+    name: "Google Drawing",
+    input: `https://docs.google.com/drawings/d/${FILE_ID}/edit`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "drawing",
+      mimeType: "application/vnd.google-apps.drawing",
+    },
+  },
+  {
+    name: "Google Workspace domain document",
+    input: `https://docs.google.com/a/example.com/document/d/${FILE_ID}/edit`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "document",
+      mimeType: "application/vnd.google-apps.document",
+    },
+  },
+  {
+    name: "Google Doc with resource key",
+    input: `https://docs.google.com/document/d/${FILE_ID}/edit?resourcekey=${RESOURCE_KEY}`,
+    expected: {
+      kind: "document",
+      id: FILE_ID,
+      documentType: "document",
+      mimeType: "application/vnd.google-apps.document",
+      resourceKey: RESOURCE_KEY,
+    },
+  },
+];
+
+// ============================================================================
+// INVALID INPUT
+// ============================================================================
+
+const INVALID_CASES: { name: string; input: unknown; reason: DriveLinkErrorReason }[] = [
+  { name: "undefined", input: undefined, reason: "EMPTY" },
+  { name: "number", input: 42, reason: "EMPTY" },
+  { name: "empty string", input: "", reason: "EMPTY" },
+  { name: "whitespace only", input: "   ", reason: "EMPTY" },
+  { name: "too-short bare ID", input: "abc123", reason: "NOT_A_URL" },
+  { name: "bare ID with illegal characters", input: "1AbCdEf$GhIjKl", reason: "NOT_A_URL" },
+  { name: "malformed URL", input: "https://", reason: "NOT_A_URL" },
+  { name: "ftp scheme", input: `ftp://drive.google.com/drive/folders/${FOLDER_ID}`, reason: "UNSUPPORTED_HOST" },
+  { name: "non-Google host", input: `https://example.com/drive/folders/${FOLDER_ID}`, reason: "UNSUPPORTED_HOST" },
+  {
+    name: "lookalike host",
+    input: `https://drive.google.com.evil.test/drive/folders/${FOLDER_ID}`,
+    reason: "UNSUPPORTED_HOST",
+  },
+  { name: "Drive home page", input: "https://drive.google.com/drive/my-drive", reason: "UNRECOGNISED_PATH" },
+  {
+    name: "usercontent page that isn't a download",
+    input: `https://drive.usercontent.google.com/other?id=${FILE_ID}`,
+    reason: "UNRECOGNISED_PATH",
+  },
+  { name: "folder ID too short", input: "https://drive.google.com/drive/folders/abc", reason: "INVALID_ID" },
+  { name: "file link without an ID", input: "https://drive.google.com/uc?export=download", reason: "INVALID_ID" },
+  { name: "document ID too short", input: "https://docs.google.com/document/d/short/edit", reason: "INVALID_ID" },
+  {
+    name: "resource key with illegal characters",
+    input: `https://drive.google.com/drive/folders/${FOLDER_ID}?resourcekey=bad%20key`,
+    reason: "INVALID_RESOURCE_KEY",
+  },
+];
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("parseDriveLink", () => {
+  describe("valid links", () => {
+    for (const { name, input, expected } of VALID_CASES) {
+      it(name, () => {
+        assert.deepEqual(parseDriveLink(input), expected);
+      });
+    }
+  });
+
+  describe("invalid input", () => {
+    for (const { name, input, reason } of INVALID_CASES) {
+      it(name, () => {
+        const link = parseDriveLink(input);
+        assert.equal(link.kind, "invalid");
+        assert.equal(link.kind === "invalid" && link.reason, reason);
+      });
+    }
+  });
+});
+
+describe("isDriveFileLink", () => {
+  it("is true for files and documents only", () => {
+    assert.equal(isDriveFileLink(parseDriveLink(`https://drive.google.com/file/d/${FILE_ID}/view`)), true);
+    assert.equal(isDriveFileLink(parseDriveLink(`https://docs.google.com/document/d/${FILE_ID}/edit`)), true);
+    assert.equal(isDriveFileLink(parseDriveLink(FOLDER_ID)), false);
+    assert.equal(isDriveFileLink(parseDriveLink(SHARED_DRIVE_ID)), false);
+    assert.equal(isDriveFileLink(parseDriveLink("")), false);
+  });
+});
@@ -0,0 +1,224 @@
+import type { DriveKind } from "./fileTypes";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type DriveDocumentType =
+  | "document"
+  | "spreadsheet"
+  | "presentation"
+  | "form"
+  | "drawing";
+
+export type DriveLinkErrorReason =
+  | "EMPTY"
+  | "NOT_A_URL"
+  | "UNSUPPORTED_HOST"
+  | "UNRECOGNISED_PATH"
+  | "INVALID_ID"
+  | "INVALID_RESOURCE_KEY";
+
+interface DriveLinkTarget {
+  id: string;
+  /** From the `resourcekey` query parameter of older link-shared items */
+  resourceKey?: string;
+}
+
+export type DriveFolderLink = DriveLinkTarget & { kind: "folder" | "shared-drive" };
+
+export type DriveFileLink =
+  | (DriveLinkTarget & { kind: "file" })
+  | (DriveLinkTarget & {
+      kind: "document";
+      documentType: DriveDocumentType;
+      mimeType: string;
+    });
+
+export interface InvalidDriveLink {
+  kind: "invalid";
+  reason: DriveLinkErrorReason;
+  message: string;
+}
+
+/**
+ * What a user-supplied Drive link (or bare ID) points at. "shared-drive" is
+ * the root of a Shared Drive; "document" is a Docs/Sheets/Slides/Forms/
+ * Drawings editor link; "file" is any other single-file link.
+ */
+export type DriveLink = DriveFolderLink | DriveFileLink | InvalidDriveLink;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DRIVE_ID_PATTERN = /^[A-Za-z0-9_-]{10,}$/;
+// Shared Drive IDs are 19 characters and always start with "0A"
+const SHARED_DRIVE_ID_PATTERN = /^0A[A-Za-z0-9_-]{17}$/;
+const RESOURCE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+// Only Google hosts are accepted, so parsed links can't be used for SSRF
+const DRIVE_HOSTS = ["drive.google.com", "docs.google.com"];
+const DOWNLOAD_HOST = "drive.usercontent.google.com";
+
+const DOCUMENT_PATH_TYPES: Record<string, { type: DriveDocumentType; mimeType: string }> = {
+  document: { type: "document", mimeType: "application/vnd.google-apps.document" },
+  spreadsheets: { type: "spreadsheet", mimeType: "application/vnd.google-apps.spreadsheet" },
+  presentation: { type: "presentation", mimeType: "application/vnd.google-apps.presentation" },
+  forms: { type: "form", mimeType: "application/vnd.google-apps.form" },
+  drawings: { type: "drawing", mimeType: "application/vnd.google-apps.drawing" },
+};
+
+// Paths that take the target ID from the `id` query parameter
+const FOLDER_QUERY_PATHS = ["/folderview", "/embeddedfolderview", "/open"];
+const FILE_QUERY_PATHS = ["/uc", "/thumbnail", "/download"];
+
+export const SUPPORTED_FOLDER_FORMATS =
+  "Supported formats:\n" +
+  "- https://drive.google.com/drive/folders/FOLDER_ID\n" +
+  "- https://drive.google.com/drive/u/1/folders/FOLDER_ID\n" +
+  "- https://drive.google.com/drive/u/0/folders/SHARED_DRIVE_ID (Shared Drive root)\n" +
+  "- https://drive.google.com/folderview?id=FOLDER_ID\n" +
+  "- https://drive.google.com/open?id=FOLDER_ID\n" +
+  "- Or just the folder ID";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * "shared-drive" for the ID of a Shared Drive's root, "folder" otherwise
+ */
+export const getDriveKind = (id: string): DriveKind =>
+  SHARED_DRIVE_ID_PATTERN.test(id) ? "shared-drive" : "folder";
+
+const invalid = (reason: DriveLinkErrorReason, message: string): InvalidDriveLink => ({
+  kind: "invalid",
+  reason,
+  message,
+});
+
+const toFolderLink = (id: string, resourceKey?: string): DriveFolderLink => ({
+  kind: getDriveKind(id),
+  id,
+  ...(resourceKey ? { resourceKey } : {}),
+});
+
+/**
+ * Drop the account (`/u/1`) and Workspace domain (`/a/example.com`)
+ * segments, which don't change what the link points at
+ */
+const normalizePath = (pathname: string): string =>
+  pathname
+    .replace(/^\/a\/[^/]+(?=\/)/, "")
+    .replace(/\/u\/\d+(?=\/)/g, "")
+    .replace(/\/+$/, "") || "/";
+
+// ============================================================================
+// MAIN FUNCTION: parseDriveLink
+// ============================================================================
+
+/**
+ * Classify a Drive URL or bare ID. Never throws; unusable input comes back
+ * as `{ kind: "invalid" }` with a machine-readable reason. Bare IDs and the
+ * ambiguous `open?id=` links are treated as folders.
+ */
+export const parseDriveLink = (input: unknown): DriveLink => {
+  if (typeof input !== "string" || !input.trim()) {
+    return invalid("EMPTY", "Folder URL must be a non-empty string.");
+  }
+
+  const trimmed = input.trim();
+  if (!trimmed.includes("://")) {
+    return DRIVE_ID_PATTERN.test(trimmed)
+      ? toFolderLink(trimmed)
+      : invalid("NOT_A_URL", "Folder URL is not a valid URL.");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return invalid("NOT_A_URL", "Folder URL is not a valid URL.");
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return invalid("UNSUPPORTED_HOST", "URL must use http or https.");
+  }
+  if (!DRIVE_HOSTS.includes(hostname) && hostname !== DOWNLOAD_HOST) {
+    return invalid(
+      "UNSUPPORTED_HOST",
+      "URL must be a Google Drive folder URL (drive.google.com)."
+    );
+  }
+
+  // Drive has used both spellings in shared links
+  const resourceKey =
+    url.searchParams.get("resourcekey") ?? url.searchParams.get("resourceKey") ?? undefined;
+  if (resourceKey !== undefined && !RESOURCE_KEY_PATTERN.test(resourceKey)) {
+    return invalid(
+      "INVALID_RESOURCE_KEY",
+      "The 'resourcekey' parameter in the URL is not valid."
+    );
+  }
+
+  const checkId = <T extends DriveLink>(id: string | null | undefined, build: (id: string) => T) =>
+    id && DRIVE_ID_PATTERN.test(id)
+      ? build(id)
+      : invalid("INVALID_ID", "The URL does not contain a valid Google Drive ID.");
+  const withKey = resourceKey ? { resourceKey } : {};
+  const queryId = url.searchParams.get("id");
+  const path = normalizePath(url.pathname);
+
+  if (hostname === DOWNLOAD_HOST) {
+    return FILE_QUERY_PATHS.includes(path)
+      ? checkId(queryId, (id) => ({ kind: "file", id, ...withKey }))
+      : invalid("UNRECOGNISED_PATH", "The provided URL is not a recognized Google Drive link.");
+  }
+
+  // /drive/folders/{id}, /drive/mobile/folders/{id}, /folders/{id}
+  const folderMatch = /^(?:\/drive)?(?:\/mobile)?\/folders\/([^/]+)/.exec(path);
+  if (folderMatch) {
+    return checkId(folderMatch[1], (id) => toFolderLink(id, resourceKey));
+  }
+
+  // /file/d/{id}/view, /file/d/{id}/edit, /file/d/{id}
+  const fileMatch = /^\/file\/d\/([^/]+)/.exec(path);
+  if (fileMatch) {
+    return checkId(fileMatch[1], (id) => ({ kind: "file", id, ...withKey }));
+  }
+
+  // /document/d/{id}/edit, /spreadsheets/d/{id}/..., /presentation/d/{id}/...
+  const documentMatch = /^\/(document|spreadsheets|presentation|forms|drawings)\/d\/([^/]+)/.exec(path);
+  if (documentMatch) {
+    const { type, mimeType } = DOCUMENT_PATH_TYPES[documentMatch[1]];
+    return checkId(documentMatch[2], (id) => ({
+      kind: "document",
+      id,
+      documentType: type,
+      mimeType,
+      ...withKey,
+    }));
+  }
+
+  if (FILE_QUERY_PATHS.includes(path)) {
+    return checkId(queryId, (id) => ({ kind: "file", id, ...withKey }));
+  }
+
+  // Any other Drive page carrying an `id` is treated as a folder link, as before
+  if (FOLDER_QUERY_PATHS.includes(path) || queryId) {
+    return checkId(queryId, (id) => toFolderLink(id, resourceKey));
+  }
+
+  return invalid(
+    "UNRECOGNISED_PATH",
+    `Could not extract a folder ID from the provided URL. ${SUPPORTED_FOLDER_FORMATS}`
+  );
+};
+
+/**
+ * True for links to a single file, including Workspace documents
+ */
+export const isDriveFileLink = (link: DriveLink): link is DriveFileLink =>
+  link.kind === "file" || link.kind === "document";
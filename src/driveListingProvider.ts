@@ -0,0 +1,134 @@
+import type {
+  DriveFileMetadata,
+  DriveKind,
+  DriveProviderName,
+  DriveSharingInfo,
+} from "./fileTypes";
+
+/**
+ * A single entry of a folder listing, normalised across providers
+ */
+export interface DriveItem extends DriveFileMetadata {
+  id: string;
+  name: string;
+  mimeType: string;
+  viewUrl: string;
+  downloadUrl: string | null;
+  kind: "file" | "folder";
+  resourceKey?: string;
+  /** Set when the item is the target of a shortcut in the listed folder */
+  shortcutId?: string;
+  /** Only filled in when requested with `includeSharing` */
+  sharing?: DriveSharingInfo;
+}
+
+export interface ListFolderPageOptions {
+  /** Opaque token returned as `nextPageToken` by the previous page */
+  pageToken?: string;
+  pageSize?: number;
+  /** Resource key of the folder being listed, if its link had one */
+  resourceKey?: string;
+  driveKind?: DriveKind;
+  /** Also report each item's sharing settings; costs extra upstream work */
+  includeSharing?: boolean;
+}
+
+export interface DriveItemDetails extends DriveItem {
+  /** First parent folder; null when the parent isn't visible to us */
+  parentId: string | null;
+}
+
+export interface GetItemOptions {
+  resourceKey?: string;
+  includeSharing?: boolean;
+}
+
+export interface DriveItemPage {
+  items: DriveItem[];
+  nextPageToken: string | null;
+}
+
+/**
+ * A backend able to list the direct children of a Drive folder, one page at
+ * a time, and to look up a single file or folder. Backends that cannot
+ * paginate return everything in the first page. Implementations throw
+ * FolderNotFoundError / FileNotFoundError / PublicAccessForbiddenError so
+ * callers can map failures the same way regardless of the backend.
+ */
+export interface DriveListingProvider {
+  readonly name: DriveProviderName;
+  listFolderPage(
+    folderId: string,
+    options?: ListFolderPageOptions
+  ): Promise<DriveItemPage>;
+  /** Shortcuts are resolved to their target */
+  getItem(id: string, options?: GetItemOptions): Promise<DriveItemDetails>;
+}
+
+export const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+export const SHORTCUT_MIME_TYPE = "application/vnd.google-apps.shortcut";
+
+export const UNKNOWN_SHARING: DriveSharingInfo = {
+  level: "unknown",
+  domain: null,
+  owner: null,
+  viewersCanDownload: null,
+};
+
+export const EMPTY_FILE_METADATA: DriveFileMetadata = {
+  size: null,
+  createdTime: null,
+  modifiedTime: null,
+  lastModifyingUser: null,
+  md5Checksum: null,
+  thumbnailLink: null,
+  description: null,
+};
+
+export interface ShortcutTarget {
+  id: string;
+  mimeType: string;
+  resourceKey?: string | null;
+}
+
+/**
+ * Build the viewer URL for a file or folder, carrying its resource key
+ */
+export const buildViewUrl = (
+  id: string,
+  isFolder: boolean,
+  resourceKey?: string
+): string => {
+  const base = isFolder
+    ? `https://drive.google.com/drive/folders/${id}`
+    : `https://drive.google.com/file/d/${id}/view`;
+  return resourceKey ? `${base}?resourcekey=${encodeURIComponent(resourceKey)}` : base;
+};
+
+/**
+ * Replace a shortcut with the item it points to. The shortcut's name is kept
+ * (it is what users see in the folder); metadata describing the shortcut
+ * itself rather than the target is dropped.
+ */
+export const resolveShortcut = (
+  shortcut: DriveItem,
+  target: ShortcutTarget
+): DriveItem => {
+  const isFolder = target.mimeType === FOLDER_MIME_TYPE;
+  const resourceKey = target.resourceKey ?? undefined;
+  return {
+    ...EMPTY_FILE_METADATA,
+    id: target.id,
+    name: shortcut.name,
+    mimeType: target.mimeType,
+    viewUrl: buildViewUrl(target.id, isFolder, resourceKey),
+    downloadUrl: isFolder || target.mimeType.startsWith("application/vnd.google-apps.")
+      ? null
+      : `https://drive.google.com/uc?export=download&id=${target.id}${
+          resourceKey ? `&resourcekey=${encodeURIComponent(resourceKey)}` : ""
+        }`,
+    kind: isFolder ? "folder" : "file",
+    ...(resourceKey ? { resourceKey } : {}),
+    shortcutId: shortcut.id,
+  };
+};
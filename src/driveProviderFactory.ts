@@ -0,0 +1,39 @@
+import { env } from "./env";
+import type { DriveProviderName } from "./fileTypes";
+import type { DriveListingProvider } from "./driveListingProvider";
+import { AppsScriptProvider } from "./appsScriptProvider";
+import { DriveApiProvider } from "./driveApiProvider";
+import { FixtureProvider } from "./fixtureProvider";
+
+export const createDriveListingProvider = (
+  name: DriveProviderName
+): DriveListingProvider => {
+  switch (name) {
+    case "apps-script":
+      return new AppsScriptProvider();
+    case "drive-api":
+      return new DriveApiProvider();
+    case "fixtures":
+      return new FixtureProvider();
+  }
+};
+
+let defaultProvider: DriveListingProvider | undefined;
+
+/**
+ * Return the provider selected by DRIVE_PROVIDER, created on first use so a
+ * misconfigured backend doesn't prevent the process from starting
+ */
+export const getDriveListingProvider = (): DriveListingProvider => {
+  if (!defaultProvider) {
+    defaultProvider = createDriveListingProvider(env.driveProvider);
+  }
+  return defaultProvider;
+};
+
+/**
+ * Replace the default provider, e.g. with a FixtureProvider in createApp
+ */
+export const setDriveListingProvider = (provider: DriveListingProvider): void => {
+  defaultProvider = provider;
+};
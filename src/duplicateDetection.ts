@@ -0,0 +1,116 @@
+import type { DriveFile, DuplicateGroup, DuplicateMatch, DuplicateReport } from "./fileTypes";
+import { FOLDER_MIME_TYPE } from "./driveListingProvider";
+
+// ============================================================================
+// NAME NORMALIZATION
+// ============================================================================
+
+// "Copy of Copy of Report.pdf" -> "Report.pdf"
+const COPY_OF_PREFIX = /^(?:copy of\s+)+/;
+
+// Suffixes Drive, browsers and desktop OSes add before the extension:
+// "Report (1)", "Report - Copy", "Report - Copy (2)", "Report copy", "Report (copy)"
+const COPY_SUFFIX = /(?:\s*\(\d+\)|\s+-\s+copy(?:\s*\(\d+\))?|\s+copy(?:\s+\d+)?|\s*\(copy\))+$/;
+
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf(".");
+  // A leading dot (".env") or a trailing one isn't an extension
+  return dot > 0 && dot < name.length - 1 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+};
+
+/**
+ * Reduce a file name to what its copies have in common: case-folded,
+ * whitespace collapsed, and "Copy of" / "(1)" / "- Copy" markers removed
+ */
+export const normalizeFileName = (name: string): string => {
+  const folded = name.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+  const [base, extension] = splitExtension(folded);
+  const stripped = base.replace(COPY_OF_PREFIX, "").replace(COPY_SUFFIX, "").trim();
+  return `${stripped || base}${extension}`;
+};
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+const byOriginalFirst = (a: DriveFile, b: DriveFile): number => {
+  // Copies are newer than the original and their names are longer. Files
+  // without a created time sort last.
+  const created = String(a.createdTime ?? "\uffff").localeCompare(
+    String(b.createdTime ?? "\uffff")
+  );
+  return (
+    created ||
+    String(a.name).length - String(b.name).length ||
+    String(a.id).localeCompare(String(b.id))
+  );
+};
+
+const toGroup = (match: DuplicateMatch, key: string, files: DriveFile[]): DuplicateGroup => {
+  const sorted = [...files].sort(byOriginalFirst);
+  const size = typeof sorted[0].size === "number" ? sorted[0].size : null;
+  return {
+    match,
+    key,
+    mimeType: sorted[0].mimeType,
+    size,
+    wastedBytes: (size ?? 0) * (sorted.length - 1),
+    files: sorted,
+  };
+};
+
+/**
+ * Group files that look like copies of each other. Files with an MD5
+ * checksum are grouped by it; the rest (Workspace files, providers that
+ * don't report checksums) by normalized name, size and MIME type. A file
+ * listed twice under the same ID (e.g. through a shortcut) is not a copy.
+ */
+export const findDuplicates = (files: DriveFile[]): DuplicateReport => {
+  const seenIds = new Set<string>();
+  const byChecksum = new Map<string, DriveFile[]>();
+  const byName = new Map<string, { key: string; files: DriveFile[] }>();
+
+  for (const file of files) {
+    if (!file?.id || seenIds.has(file.id) || file.mimeType === FOLDER_MIME_TYPE) {
+      continue;
+    }
+    seenIds.add(file.id);
+
+    if (file.md5Checksum) {
+      // Keys are compared as strings when groups are sorted
+      const checksum = String(file.md5Checksum);
+      const group = byChecksum.get(checksum) ?? [];
+      group.push(file);
+      byChecksum.set(checksum, group);
+      continue;
+    }
+
+    const normalizedName = normalizeFileName(typeof file.name === "string" ? file.name : "");
+    if (!normalizedName) {
+      continue;
+    }
+    const key = JSON.stringify([normalizedName, file.size ?? null, file.mimeType ?? ""]);
+    const group = byName.get(key) ?? { key: normalizedName, files: [] };
+    group.files.push(file);
+    byName.set(key, group);
+  }
+
+  const groups: DuplicateGroup[] = [
+    ...[...byChecksum.entries()]
+      .filter(([, group]) => group.length > 1)
+      .map(([checksum, group]) => toGroup("checksum", checksum, group)),
+    ...[...byName.values()]
+      .filter((group) => group.files.length > 1)
+      .map((group) => toGroup("name", group.key, group.files)),
+  ].sort(
+    (a, b) =>
+      b.wastedBytes - a.wastedBytes || b.files.length - a.files.length || a.key.localeCompare(b.key)
+  );
+
+  return {
+    filesAnalyzed: seenIds.size,
+    groups,
+    duplicateFiles: groups.reduce((total, group) => total + group.files.length - 1, 0),
+    wastedBytes: groups.reduce((total, group) => total + group.wastedBytes, 0),
+  };
+};
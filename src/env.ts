@@ -1,14 +1,44 @@
 import dotenv from "dotenv";
+import type { DriveProviderName } from "./fileTypes";
 
 dotenv.config();
 
 export interface EnvConfig {
   port: number;
   nodeEnv: string | undefined;
+  driveProvider: DriveProviderName;
+  /** Browser origins allowed by CORS */
+  allowedOrigins: string[];
+  /** Per-IP limits for anonymous requests; 0 disables the limiter */
+  extractRateLimitPerMinute: number;
+  downloadRateLimitPerMinute: number;
 }
 
+const parseRateLimit = (value: string | undefined, fallback: number): number => {
+  const limit = Number(value);
+  return value !== undefined && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+const parseDriveProvider = (value: string | undefined): DriveProviderName => {
+  if (!value) {
+    return "apps-script";
+  }
+  if (value === "apps-script" || value === "drive-api" || value === "fixtures") {
+    return value;
+  }
+  throw new Error(
+    `Invalid DRIVE_PROVIDER "${value}". Expected "apps-script", "drive-api" or "fixtures".`
+  );
+};
+
 export const env: EnvConfig = {
   port: Number(process.env.PORT) || 4000,
   nodeEnv: process.env.NODE_ENV,
+  driveProvider: parseDriveProvider(process.env.DRIVE_PROVIDER),
+  allowedOrigins: [
+    "https://drive-scraper.vercel.app",
+    process.env.FRONTEND_URL,
+  ].filter(Boolean) as string[],
+  extractRateLimitPerMinute: parseRateLimit(process.env.EXTRACT_RATE_LIMIT, 30),
+  downloadRateLimitPerMinute: parseRateLimit(process.env.DOWNLOAD_RATE_LIMIT, 5),
 };
-
@@ -0,0 +1,196 @@
+import type { Response } from "express";
+import type { ErrorResponse } from "./fileTypes";
+import {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  InvalidPageTokenError,
+  UpstreamAuthError,
+  UpstreamTimeoutError,
+  UpstreamRateLimitedError,
+  UpstreamUnavailableError,
+} from "./scrapeErrors";
+import {
+  DEFAULT_RATE_LIMIT_RETRY_AFTER_SECONDS,
+  DEFAULT_UNAVAILABLE_RETRY_AFTER_SECONDS,
+} from "./upstreamResilience";
+import { getRequestId } from "./requestContext";
+import { recordScrapeError } from "./metrics";
+import { logger } from "./logger";
+
+export interface MappedErrorResponse {
+  status: number;
+  body: ErrorResponse;
+  /** Sent as the Retry-After header */
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Add the request ID to object details so clients can quote it in bug reports
+ */
+const withRequestId = (details: unknown): unknown => {
+  const requestId = getRequestId();
+  if (!requestId) {
+    return details;
+  }
+  if (details === undefined) {
+    return { requestId };
+  }
+  if (typeof details === "object" && details !== null && !Array.isArray(details)) {
+    return { ...details, requestId };
+  }
+  return details;
+};
+
+export const buildErrorResponse = (
+  code: ErrorResponse["error"]["code"],
+  message: string,
+  details?: unknown
+): ErrorResponse => ({
+  error: {
+    code,
+    message,
+    details: withRequestId(details),
+  },
+});
+
+/**
+ * Map an error thrown while listing a folder (or looking up a single item)
+ * to the HTTP status and body we report to clients
+ */
+const mapScrapeError = (
+  error: unknown,
+  subject: "folder" | "file"
+): MappedErrorResponse => {
+  if (error instanceof FileNotFoundError) {
+    return {
+      status: 404,
+      body: buildErrorResponse(
+        "FILE_NOT_FOUND",
+        "File not found or no longer available."
+      ),
+    };
+  }
+
+  if (error instanceof FolderNotFoundError) {
+    return {
+      status: 404,
+      body: buildErrorResponse(
+        "FOLDER_NOT_FOUND",
+        "Folder not found or no longer available."
+      ),
+    };
+  }
+
+  if (error instanceof PublicAccessForbiddenError && subject === "file") {
+    return {
+      status: 403,
+      body: buildErrorResponse(
+        "FOLDER_ACCESS_FORBIDDEN",
+        "This file is not publicly accessible. Please ensure it or its parent folder is shared as 'Anyone with the link can view' and try again."
+      ),
+    };
+  }
+
+  if (error instanceof PublicAccessForbiddenError) {
+    return {
+      status: 403,
+      body: buildErrorResponse(
+        "FOLDER_ACCESS_FORBIDDEN",
+        "This folder is not publicly accessible. Please set it to 'Anyone with the link can view' and try again."
+      ),
+    };
+  }
+
+  if (error instanceof UpstreamAuthError) {
+    return {
+      status: 502,
+      body: buildErrorResponse(
+        "UPSTREAM_UNAVAILABLE",
+        "Google Drive rejected this server's credentials. Please contact the administrator."
+      ),
+    };
+  }
+
+  if (error instanceof UpstreamTimeoutError) {
+    return {
+      status: 504,
+      body: buildErrorResponse(
+        "UPSTREAM_TIMEOUT",
+        `Google Drive took too long to respond while reading the ${subject}. Please try again.`
+      ),
+    };
+  }
+
+  if (error instanceof UpstreamRateLimitedError) {
+    const retryAfterSeconds = error.retryAfterSeconds ?? DEFAULT_RATE_LIMIT_RETRY_AFTER_SECONDS;
+    return {
+      status: 429,
+      body: buildErrorResponse(
+        "UPSTREAM_RATE_LIMITED",
+        "Google Drive is rate limiting requests. Please try again later.",
+        { retryAfterSeconds }
+      ),
+      retryAfterSeconds,
+    };
+  }
+
+  if (error instanceof UpstreamUnavailableError) {
+    const retryAfterSeconds = error.retryAfterSeconds ?? DEFAULT_UNAVAILABLE_RETRY_AFTER_SECONDS;
+    return {
+      status: 503,
+      body: buildErrorResponse(
+        "UPSTREAM_UNAVAILABLE",
+        "Google Drive is temporarily unavailable. Please try again later.",
+        { retryAfterSeconds }
+      ),
+      retryAfterSeconds,
+    };
+  }
+
+  if (error instanceof InvalidPageTokenError) {
+    return {
+      status: 400,
+      body: buildErrorResponse("INVALID_REQUEST", error.message),
+    };
+  }
+
+  return {
+    status: 500,
+    body: buildErrorResponse(
+      "INTERNAL_ERROR",
+      `Unexpected error while scraping the ${subject}.`
+    ),
+  };
+};
+
+/**
+ * Map a scrape error to its response and count it, by code, in /metrics
+ */
+export const scrapeErrorToResponse = (
+  error: unknown,
+  subject: "folder" | "file" = "folder"
+): MappedErrorResponse => {
+  const mapped = mapScrapeError(error, subject);
+  recordScrapeError(mapped.body.error.code);
+  if (mapped.body.error.code === "INTERNAL_ERROR" || error instanceof UpstreamAuthError) {
+    // Clients only see a generic message, so keep the cause in the logs
+    logger.error("Unexpected scrape error", { module: "errorResponses", error });
+  }
+  return mapped;
+};
+
+/**
+ * Send the response for a scrape error, including its Retry-After header
+ */
+export const sendScrapeError = (
+  res: Response,
+  error: unknown,
+  subject: "folder" | "file" = "folder"
+): Response => {
+  const { status, body, retryAfterSeconds } = scrapeErrorToResponse(error, subject);
+  if (retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", retryAfterSeconds.toString());
+  }
+  return res.status(status).json(body);
+};
@@ -0,0 +1,254 @@
+import type { ErrorResponse, ExtractFilesResponse } from "./fileTypes";
+import { parseDriveLink, isDriveFileLink } from "./driveLinks";
+import type { DriveFileLink } from "./driveLinks";
+import { MAX_DEPTH_LIMIT, MAX_PAGE_SIZE } from "./publicScrapeService";
+import type { ScrapeOptions, PublicScrapeResult } from "./publicScrapeService";
+import { buildErrorResponse } from "./errorResponses";
+import {
+  parseFileQuery,
+  applyFileQuery,
+  InvalidFileQueryError,
+} from "./fileFilters";
+import type { FileQuery } from "./fileFilters";
+import {
+  applyExportPreferences,
+  parseExportFormatPreferences,
+  InvalidExportFormatError,
+} from "./workspaceExports";
+import type { ExportFormatPreferences } from "./workspaceExports";
+import { summarizeSharingAudit } from "./sharingAudit";
+
+export interface ExtractRequestBody {
+  folderUrl: string;
+  recursive?: boolean;
+  maxDepth?: number;
+  pageToken?: string;
+  pageSize?: number;
+  filter?: unknown;
+  sort?: unknown;
+  /** Preferred Workspace export format per type, e.g. { document: "pdf" } */
+  exportFormats?: unknown;
+  /** Report each file's sharing settings and flag broad sharing */
+  audit?: boolean;
+}
+
+export type ParsedExtractRequest =
+  | { kind: "error"; status: number; body: ErrorResponse }
+  | { kind: "file"; link: DriveFileLink }
+  | {
+      kind: "folder";
+      folderId: string;
+      options: ScrapeOptions;
+      query: FileQuery;
+      exportFormats?: ExportFormatPreferences;
+      pageToken?: string;
+      pageSize?: number;
+    };
+
+/**
+ * Validate an extract request body and resolve the folder ID (or detect a
+ * single-file link). Shared by /extract, /extract/stream and /jobs.
+ */
+export const parseExtractRequest = (body: ExtractRequestBody): ParsedExtractRequest => {
+  const {
+    folderUrl,
+    recursive,
+    maxDepth,
+    pageToken,
+    pageSize,
+    filter,
+    sort,
+    exportFormats: rawExportFormats,
+    audit,
+  } = body ?? {};
+
+  const invalid = (
+    code: ErrorResponse["error"]["code"],
+    message: string
+  ): ParsedExtractRequest => ({
+    kind: "error",
+    status: 400,
+    body: buildErrorResponse(code, message),
+  });
+
+  if (!folderUrl || typeof folderUrl !== "string") {
+    return invalid(
+      "INVALID_FOLDER_URL",
+      "Request body must include a valid 'folderUrl' string."
+    );
+  }
+
+  if (recursive !== undefined && typeof recursive !== "boolean") {
+    return invalid("INVALID_REQUEST", "'recursive' must be a boolean.");
+  }
+
+  if (
+    maxDepth !== undefined &&
+    (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_DEPTH_LIMIT)
+  ) {
+    return invalid(
+      "INVALID_REQUEST",
+      `'maxDepth' must be an integer between 0 and ${MAX_DEPTH_LIMIT}.`
+    );
+  }
+
+  if (pageToken !== undefined && (typeof pageToken !== "string" || !pageToken)) {
+    return invalid("INVALID_REQUEST", "'pageToken' must be a non-empty string.");
+  }
+
+  if (
+    pageSize !== undefined &&
+    (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)
+  ) {
+    return invalid(
+      "INVALID_REQUEST",
+      `'pageSize' must be an integer between 1 and ${MAX_PAGE_SIZE}.`
+    );
+  }
+
+  if (audit !== undefined && typeof audit !== "boolean") {
+    return invalid("INVALID_REQUEST", "'audit' must be a boolean.");
+  }
+
+  if (audit && (pageToken !== undefined || pageSize !== undefined)) {
+    return invalid(
+      "INVALID_REQUEST",
+      "Pagination is not supported for sharing audits. Use /api/extract/stream instead."
+    );
+  }
+
+  if (recursive && (pageToken !== undefined || pageSize !== undefined)) {
+    return invalid(
+      "INVALID_REQUEST",
+      "Pagination is not supported for recursive listings. Use /api/extract/stream instead."
+    );
+  }
+
+  let query: FileQuery;
+  let exportFormats: ExportFormatPreferences | undefined;
+  try {
+    query = parseFileQuery(filter, sort);
+    exportFormats = parseExportFormatPreferences(rawExportFormats);
+  } catch (error: unknown) {
+    if (
+      error instanceof InvalidFileQueryError ||
+      error instanceof InvalidExportFormatError
+    ) {
+      return invalid(error.code, error.message);
+    }
+    throw error;
+  }
+
+  if (query.sort && (pageToken !== undefined || pageSize !== undefined)) {
+    return invalid(
+      "INVALID_REQUEST",
+      "'sort' cannot be combined with pagination because pages are sorted independently."
+    );
+  }
+
+  // SSRF Prevention: only Drive links and bare IDs are accepted
+  const link = parseDriveLink(folderUrl);
+  if (link.kind === "invalid") {
+    return {
+      kind: "error",
+      status: 400,
+      body: buildErrorResponse("INVALID_FOLDER_URL", link.message, {
+        reason: link.reason,
+      }),
+    };
+  }
+
+  if (isDriveFileLink(link)) {
+    return { kind: "file", link };
+  }
+
+  return {
+    kind: "folder",
+    folderId: link.id,
+    options: {
+      recursive,
+      maxDepth,
+      resourceKey: link.resourceKey,
+      driveKind: link.kind,
+      ...(audit ? { includeSharing: true } : {}),
+    },
+    query,
+    exportFormats,
+    pageToken,
+    pageSize,
+  };
+};
+
+const describeDepthLimit = (folders: number): string =>
+  `${folders} subfolder(s) deeper than 'maxDepth' were not listed. Raise 'maxDepth' (up to ${MAX_DEPTH_LIMIT}) to include their files.`;
+
+/**
+ * Build the /extract response body for a completed folder listing,
+ * applying the request's filter, sort and export format preferences
+ */
+export const buildFolderExtractResponse = (
+  folderId: string,
+  result: PublicScrapeResult,
+  query?: FileQuery,
+  exportFormats?: ExportFormatPreferences
+): ExtractFilesResponse => {
+  const files = applyExportPreferences(applyFileQuery(result.files, query), exportFormats);
+
+  const base: Omit<ExtractFilesResponse, "files"> = {
+    folderId,
+    source: result.source,
+    foldersVisited: result.foldersVisited,
+    truncated: result.truncated,
+    ...(result.foldersBeyondMaxDepth > 0
+      ? { foldersBeyondMaxDepth: result.foldersBeyondMaxDepth }
+      : {}),
+    ...(result.sharingAudited ? { audit: summarizeSharingAudit(files) } : {}),
+  };
+
+  if (files.length === 0 && result.files.length > 0) {
+    return {
+      ...base,
+      files: [],
+      message: "No files matched the requested filter.",
+    };
+  }
+
+  if (files.length > 0) {
+    const responseBody: ExtractFilesResponse = {
+      ...base,
+      files,
+    };
+    if (result.truncated) {
+      responseBody.message =
+        "The listing was truncated because the folder tree exceeds the maximum number of items.";
+    } else if (result.foldersBeyondMaxDepth > 0) {
+      responseBody.message = describeDepthLimit(result.foldersBeyondMaxDepth);
+    }
+    return responseBody;
+  }
+
+  // Only subfolders below the depth limit; the folder itself isn't empty
+  if (result.isEmptyFolder && result.foldersBeyondMaxDepth > 0) {
+    return {
+      ...base,
+      files: [],
+      message: describeDepthLimit(result.foldersBeyondMaxDepth),
+    };
+  }
+
+  if (result.isEmptyFolder) {
+    return {
+      ...base,
+      files: [],
+      message:
+        "Folder appears to be empty. Make sure it contains files and that 'Anyone with the link' has at least view permission.",
+    };
+  }
+
+  return {
+    ...base,
+    files: [],
+    message:
+      "The folder HTML was loaded but no files could be parsed. Please ensure the folder is shared as 'Anyone with the link can view/edit' and try again. Google Drive HTML structure may have changed.",
+  };
+};
@@ -1,378 +1,598 @@
-import { Router, Request, Response } from "express";
-import axios from "axios";
-import * as XLSX from "xlsx";
-import type { ErrorResponse, ExtractFilesResponse, DriveFile } from "./fileTypes";
-import {
-  extractFolderId,
-  InvalidFolderUrlError,
-} from "./extractFolderId";
+import { Router, Request, Response, NextFunction } from "express";
+import type {
+  AccessMode,
+  ExtractFilesResponse,
+  DriveFile,
+  BatchFolderResult,
+  BatchExtractResponse,
+} from "./fileTypes";
 import {
+  getDriveItem,
+  scrapeFolderPage,
   scrapePublicFolder,
+  walkFolder,
   FolderNotFoundError,
   PublicAccessForbiddenError,
 } from "./publicScrapeService";
+import type { FolderWalkSummary } from "./publicScrapeService";
+import {
+  buildErrorResponse,
+  scrapeErrorToResponse,
+  sendScrapeError,
+} from "./errorResponses";
+import {
+  parseExtractRequest,
+  buildFolderExtractResponse,
+} from "./extractRequest";
+import type { ExtractRequestBody } from "./extractRequest";
+import { mapWithConcurrency } from "./concurrency";
+import { chargeExtractions, recordFilesListed } from "./apiKeyAuth";
+import {
+  getFolderListing,
+  etagMatches,
+  computeListingEtag,
+} from "./folderCache";
+import {
+  applyFileQuery,
+  parseFileQuery,
+  isEmptyFileQuery,
+  isDriveFileLike,
+  InvalidFileQueryError,
+} from "./fileFilters";
+import type { FileQuery } from "./fileFilters";
+import {
+  applyExportPreferences,
+  parseExportFormatPreferences,
+  InvalidExportFormatError,
+} from "./workspaceExports";
+import type { ExportFormatPreferences } from "./workspaceExports";
+import {
+  renderExport,
+  parseExportFormat,
+  parseExportColumns,
+  InvalidExportRequestError,
+} from "./fileExport";
+import type {
+  ExportColumnKey,
+  ExportFailure,
+  ExportFormat,
+  ExportSheet,
+} from "./fileExport";
+import type { DriveFileLink } from "./driveLinks";
+import { getUserDriveProvider } from "./googleOAuth";
+import { findDuplicates } from "./duplicateDetection";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "extractRoute" });
 
 export const extractRouter = Router();
 
-interface ExtractRequestBody {
-  folderUrl: string;
-}
-
-const buildErrorResponse = (
-  code: ErrorResponse["error"]["code"],
-  message: string,
-  details?: unknown
-): ErrorResponse => ({
-  error: {
-    code,
-    message,
-    details,
-  },
-});
+const MAX_BATCH_SIZE = 100;
+const BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 4;
 
 /**
- * Validate folder URL to prevent SSRF attacks
- * Only allows valid Google Drive folder URLs or folder IDs
- * Uses the same extraction logic to ensure consistency
+ * Drive reports folders the caller can't see as not found, so both errors
+ * are worth retrying with the signed-in user's token
  */
-function validateFolderUrl(folderUrl: string): boolean {
-  if (!folderUrl || typeof folderUrl !== "string") {
-    return false;
-  }
-
-  const trimmed = folderUrl.trim();
-  if (!trimmed) {
-    return false;
-  }
-
-  // Allow bare folder IDs (alphanumeric, dashes, underscores, at least 10 chars)
-  if (/^[A-Za-z0-9_-]{10,}$/.test(trimmed) && !trimmed.includes("://")) {
-    return true;
-  }
-
-  // Try to parse as URL and check if it's a Google Drive URL
-  try {
-    const url = new URL(trimmed);
-    const hostname = url.hostname.toLowerCase();
-    
-    // Only accept Google Drive hostnames
-    if (hostname !== "drive.google.com" && hostname !== "docs.google.com") {
-      return false;
-    }
-
-    // Check if we can extract a folder ID using the same patterns as extractFolderId
-    const patterns = [
-      /\/u\/\d+\/folders\/([A-Za-z0-9_-]+)/,        // /u/1/folders/{id}
-      /\/folders\/([A-Za-z0-9_-]+)/,                // /folders/{id}
-      /folderview\?id=([A-Za-z0-9_-]+)/,            // folderview?id={id}
-      /open\?id=([A-Za-z0-9_-]+)/,                  // open?id={id}
-      /[?&]id=([A-Za-z0-9_-]+)/,                    // ?id={id} or &id={id}
-    ];
-
-    const path = url.pathname;
-    const search = url.search;
-
-    for (const pattern of patterns) {
-      const match = (path + search).match(pattern);
-      if (match && match[1] && match[1].length >= 10) {
-        return true;
-      }
-    }
-
-    // Also check query params directly
-    const idParam = url.searchParams.get("id");
-    if (idParam && /^[A-Za-z0-9_-]{10,}$/.test(idParam)) {
-      return true;
-    }
-
-    return false;
-  } catch {
-    // Not a valid URL, but might be a bare folder ID (already checked above)
-    return false;
-  }
-}
+const isPublicAccessError = (error: unknown): boolean =>
+  error instanceof PublicAccessForbiddenError || error instanceof FolderNotFoundError;
 
+/**
+ * Answer /extract for a single-file link with the file's own metadata
+ */
 const handleSingleFileLink = async (
-  fileUrl: string,
+  link: DriveFileLink,
   res: Response
 ): Promise<Response> => {
-  let url: URL;
   try {
-    url = new URL(fileUrl);
-  } catch {
-    const errorBody = buildErrorResponse(
-      "INVALID_FOLDER_URL",
-      "The provided URL is not a valid Google Drive link."
-    );
-    return res.status(400).json(errorBody);
-  }
+    const item = await getDriveItem(link.id, { resourceKey: link.resourceKey });
+    if (item.kind === "folder") {
+      const errorBody = buildErrorResponse(
+        "INVALID_FOLDER_URL",
+        "The link points to a folder. Use the folder URL to list its contents."
+      );
+      return res.status(400).json(errorBody);
+    }
 
-  const match = /\/file\/d\/([a-zA-Z0-9_-]{5,})\//.exec(url.pathname);
-  if (!match || !match[1]) {
-    const errorBody = buildErrorResponse(
-      "INVALID_FOLDER_URL",
-      "The provided URL is not a recognized Google Drive file link."
-    );
-    return res.status(400).json(errorBody);
+    const responseBody: ExtractFilesResponse = {
+      folderId: item.file.parentId ?? null,
+      fileId: item.file.id,
+      source: item.source,
+      files: [item.file],
+    };
+    recordFilesListed(res, 1);
+    return res.status(200).json(responseBody);
+  } catch (error: unknown) {
+    return sendScrapeError(res, error, "file");
   }
+};
 
-  const fileId = match[1];
-  const viewUrl = `https://drive.google.com/file/d/${encodeURIComponent(
-    fileId
-  )}/view`;
-  const downloadUrl = `https://drive.google.com/uc?export=download&id=${encodeURIComponent(
-    fileId
-  )}`;
-
-  try {
-    const resp = await axios.get<string>(viewUrl, {
-      responseType: "text",
-      validateStatus: () => true,
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36",
-      },
-    });
+extractRouter.post(
+  "/extract",
+  async (req: Request<unknown, unknown, ExtractRequestBody>, res: Response) => {
+    const parsed = parseExtractRequest(req.body);
 
-    const { status, data } = resp;
+    if (parsed.kind === "error") {
+      return res.status(parsed.status).json(parsed.body);
+    }
 
-    if (
-      status === 404 &&
-      data.includes("Sorry, the file you have requested does not exist.")
-    ) {
-      const errorBody = buildErrorResponse(
-        "FOLDER_NOT_FOUND",
-        "File not found or no longer available."
-      );
-      return res.status(404).json(errorBody);
+    if (parsed.kind === "file") {
+      return handleSingleFileLink(parsed.link, res);
     }
 
-    if (status >= 400 && status < 600) {
-      const errorBody = buildErrorResponse(
-        "FOLDER_ACCESS_FORBIDDEN",
-        "This file is not publicly accessible. Please ensure its parent folder is shared as 'Anyone with the link can view' and try again."
-      );
-      return res.status(403).json(errorBody);
+    const { folderId, options, query, exportFormats, pageToken, pageSize } = parsed;
+
+    if (pageToken !== undefined || pageSize !== undefined) {
+      const pageOptions = {
+        pageToken,
+        pageSize,
+        resourceKey: options.resourceKey,
+        driveKind: options.driveKind,
+      };
+      try {
+        let page;
+        let accessMode: AccessMode = "public";
+        try {
+          page = await scrapeFolderPage(folderId, pageOptions);
+        } catch (error: unknown) {
+          const userProvider = isPublicAccessError(error) ? await getUserDriveProvider(req) : undefined;
+          if (!userProvider) {
+            throw error;
+          }
+          page = await scrapeFolderPage(folderId, { ...pageOptions, provider: userProvider });
+          accessMode = "user";
+        }
+        // Filters apply per page, so a page may hold fewer than pageSize files
+        const responseBody: ExtractFilesResponse = {
+          folderId,
+          source: page.source,
+          accessMode,
+          files: applyExportPreferences(applyFileQuery(page.files, query), exportFormats),
+          nextPageToken: page.nextPageToken,
+        };
+        if (page.isEmptyFolder) {
+          responseBody.message =
+            "Folder appears to be empty. Make sure it contains files and that 'Anyone with the link' has at least view permission.";
+        }
+        recordFilesListed(res, responseBody.files.length);
+        return res.status(200).json(responseBody);
+      } catch (error: unknown) {
+        return sendScrapeError(res, error);
+      }
     }
 
-    const titleMatch = /<title[^>]*>([^<]+)<\/title>/i.exec(data);
-    let name = fileId;
-    if (titleMatch && titleMatch[1]) {
-      let title = titleMatch[1].trim();
-      title = title.replace(/\s*-\s*Google Drive\s*$/i, "");
-      if (title) {
-        name = title;
+    let listing;
+    try {
+      listing = await getFolderListing(folderId, options, {
+        refresh: req.query.refresh === "true",
+      });
+    } catch (error: unknown) {
+      const userProvider = isPublicAccessError(error) ? await getUserDriveProvider(req) : undefined;
+      if (!userProvider) {
+        return sendScrapeError(res, error);
+      }
+
+      // Private listings are never put in the shared folder cache
+      try {
+        const result = await scrapePublicFolder(folderId, { ...options, provider: userProvider });
+        const responseBody: ExtractFilesResponse = {
+          ...buildFolderExtractResponse(folderId, result, query, exportFormats),
+          accessMode: "user",
+        };
+        res.setHeader("Cache-Control", "private, no-store");
+        recordFilesListed(res, responseBody.files.length);
+        return res.status(200).json(responseBody);
+      } catch (userError: unknown) {
+        return sendScrapeError(res, userError);
       }
     }
 
-    const file: DriveFile = {
-      id: fileId,
-      name,
-      mimeType: "application/octet-stream",
-      viewUrl,
-      downloadUrl,
-    };
+    const { result } = listing;
+
+    log.debug("Folder listing", {
+      folderId,
+      files: result.files.length,
+      foldersVisited: result.foldersVisited,
+      isEmptyFolder: result.isEmptyFolder,
+      fromCache: listing.fromCache,
+    });
 
     const responseBody: ExtractFilesResponse = {
-      folderId: fileId,
-      source: "public",
-      files: [file],
+      ...buildFolderExtractResponse(folderId, result, query, exportFormats),
+      accessMode: "public",
+      cachedAt: listing.cachedAt.toISOString(),
     };
 
+    // The ETag must describe what this request returns, not the raw listing
+    const etag = isEmptyFileQuery(query) && !exportFormats
+      ? listing.etag
+      : computeListingEtag(responseBody.files);
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", "private, no-cache");
+    if (etagMatches(req.headers["if-none-match"], etag)) {
+      return res.status(304).end();
+    }
+
+    recordFilesListed(res, responseBody.files.length);
     return res.status(200).json(responseBody);
-  } catch {
-    const errorBody = buildErrorResponse(
-      "INTERNAL_ERROR",
-      "Unexpected error while scraping the file."
-    );
-    return res.status(500).json(errorBody);
   }
-};
+);
 
+/**
+ * NDJSON variant of /extract. Each line is one of:
+ *   {"type":"file","file":DriveFile}
+ *   {"type":"summary",...}  (last line on success)
+ *   {"type":"error","error":{...}}  (last line if the walk fails midway)
+ * Errors before the first page is received are returned as regular JSON.
+ */
 extractRouter.post(
-  "/extract",
+  "/extract/stream",
   async (req: Request<unknown, unknown, ExtractRequestBody>, res: Response) => {
-    const { folderUrl } = req.body;
+    const parsed = parseExtractRequest(req.body);
+
+    if (parsed.kind === "error") {
+      return res.status(parsed.status).json(parsed.body);
+    }
 
-    if (!folderUrl || typeof folderUrl !== "string") {
+    if (parsed.kind === "file") {
+      return handleSingleFileLink(parsed.link, res);
+    }
+
+    if (parsed.pageToken !== undefined || parsed.pageSize !== undefined) {
       const errorBody = buildErrorResponse(
-        "INVALID_FOLDER_URL",
-        "Request body must include a valid 'folderUrl' string."
+        "INVALID_REQUEST",
+        "'pageToken' and 'pageSize' are not supported when streaming."
       );
       return res.status(400).json(errorBody);
     }
 
-    // SSRF Prevention: Validate folder URL format
-    if (!validateFolderUrl(folderUrl)) {
+    if (parsed.query.sort) {
       const errorBody = buildErrorResponse(
-        "INVALID_FOLDER_URL",
-        "Invalid Google Drive folder URL format."
+        "INVALID_REQUEST",
+        "'sort' is not supported when streaming; files are sent in the order they are found."
       );
       return res.status(400).json(errorBody);
     }
 
-    let folderId: string;
+    const { folderId, options, query, exportFormats } = parsed;
+    const walk = walkFolder(folderId, options);
+
+    let aborted = false;
+    res.on("close", () => {
+      aborted = true;
+    });
+
+    let step: IteratorResult<DriveFile[], FolderWalkSummary>;
     try {
-      try {
-        const url = new URL(folderUrl);
-        if (/\/file\/d\/[a-zA-Z0-9_-]{5,}\//.test(url.pathname)) {
-          return handleSingleFileLink(folderUrl, res);
-        }
-      } catch {
-        // not a URL; fall through to folder ID/URL parsing
+      step = await walk.next();
+    } catch (error: unknown) {
+      return sendScrapeError(res, error);
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    res.flushHeaders();
+
+    const writeLine = async (payload: unknown): Promise<void> => {
+      if (!res.write(`${JSON.stringify(payload)}\n`)) {
+        await new Promise<void>((resolve) => {
+          res.once("drain", resolve);
+          res.once("close", resolve);
+        });
       }
+    };
 
-      folderId = extractFolderId(folderUrl);
-    } catch (error: unknown) {
-      if (error instanceof InvalidFolderUrlError) {
-        const errorBody = buildErrorResponse(
-          "INVALID_FOLDER_URL",
-          error.message
-        );
-        return res.status(400).json(errorBody);
+    let count = 0;
+    try {
+      while (!step.done) {
+        const files = applyExportPreferences(applyFileQuery(step.value, query), exportFormats);
+        for (const file of files) {
+          await writeLine({ type: "file", file });
+          count++;
+        }
+        // Stop walking the tree once the client has gone away
+        if (aborted) {
+          recordFilesListed(res, count);
+          return;
+        }
+        step = await walk.next();
       }
 
-      const errorBody = buildErrorResponse(
-        "INTERNAL_ERROR",
-        "Unexpected error while parsing folder URL."
-      );
-      return res.status(500).json(errorBody);
+      await writeLine({
+        type: "summary",
+        folderId,
+        source: step.value.source,
+        foldersVisited: step.value.foldersVisited,
+        truncated: step.value.truncated,
+        foldersBeyondMaxDepth: step.value.foldersBeyondMaxDepth,
+        count,
+      });
+    } catch (error: unknown) {
+      const { body } = scrapeErrorToResponse(error);
+      await writeLine({ type: "error", ...body });
     }
 
-    try {
-      const result = await scrapePublicFolder(folderId);
+    recordFilesListed(res, count);
+    return res.end();
+  }
+);
 
-      if (process.env.NODE_ENV !== "production") {
-        console.log(`[extractRoute] scrapePublicFolder result: folderId=${folderId}, files=${result.files.length}, isEmptyFolder=${result.isEmptyFolder}`);
-      }
+interface BatchExtractRequestBody {
+  folderUrls: string[];
+  recursive?: boolean;
+  maxDepth?: number;
+  filter?: unknown;
+  sort?: unknown;
+  exportFormats?: unknown;
+}
 
-      const base: Omit<ExtractFilesResponse, "files"> = {
-        folderId,
-        source: "public",
-      };
+const extractBatchFolder = async (
+  folderUrl: string,
+  options: Omit<BatchExtractRequestBody, "folderUrls">
+): Promise<BatchFolderResult> => {
+  const parsed = parseExtractRequest({ folderUrl, ...options });
 
-      if (result.files.length > 0) {
-        const responseBody: ExtractFilesResponse = {
-          ...base,
-          files: result.files,
-        };
-        return res.status(200).json(responseBody);
-      }
+  if (parsed.kind === "error") {
+    return { folderUrl, error: parsed.body.error };
+  }
 
-      if (result.isEmptyFolder) {
-        const responseBody: ExtractFilesResponse = {
-          ...base,
-          files: [],
-          message:
-            "Folder appears to be empty. Make sure it contains files and that 'Anyone with the link' has at least view permission.",
-        };
-        return res.status(200).json(responseBody);
-      }
+  if (parsed.kind === "file") {
+    return {
+      folderUrl,
+      error: buildErrorResponse(
+        "INVALID_FOLDER_URL",
+        "The provided URL is a file link, not a folder link."
+      ).error,
+    };
+  }
 
-      const responseBody: ExtractFilesResponse = {
-        ...base,
-        files: [],
-        message:
-          "The folder HTML was loaded but no files could be parsed. Please ensure the folder is shared as 'Anyone with the link can view/edit' and try again. Google Drive HTML structure may have changed.",
-      };
-      return res.status(200).json(responseBody);
-    } catch (error: unknown) {
-      if (error instanceof FolderNotFoundError) {
-        const errorBody = buildErrorResponse(
-          "FOLDER_NOT_FOUND",
-          "Folder not found or no longer available."
-        );
-        return res.status(404).json(errorBody);
-      }
+  try {
+    const { result } = await getFolderListing(parsed.folderId, parsed.options);
+    return {
+      folderUrl,
+      folderId: parsed.folderId,
+      result: buildFolderExtractResponse(
+        parsed.folderId,
+        result,
+        parsed.query,
+        parsed.exportFormats
+      ),
+    };
+  } catch (error: unknown) {
+    return {
+      folderUrl,
+      folderId: parsed.folderId,
+      error: scrapeErrorToResponse(error).body.error,
+    };
+  }
+};
 
-      if (error instanceof PublicAccessForbiddenError) {
-        const errorBody = buildErrorResponse(
-          "FOLDER_ACCESS_FORBIDDEN",
-          "This folder is not publicly accessible. Please set it to 'Anyone with the link can view' and try again."
-        );
-        return res.status(403).json(errorBody);
-      }
+/**
+ * List many folders in one request. Each folder succeeds or fails on its own,
+ * so one forbidden folder doesn't fail the whole batch.
+ */
+extractRouter.post(
+  "/extract/batch",
+  async (req: Request<unknown, unknown, BatchExtractRequestBody>, res: Response) => {
+    const { folderUrls, ...options } = req.body ?? {};
 
+    if (
+      !Array.isArray(folderUrls) ||
+      folderUrls.length === 0 ||
+      folderUrls.length > MAX_BATCH_SIZE
+    ) {
       const errorBody = buildErrorResponse(
-        "INTERNAL_ERROR",
-        "Unexpected error while scraping the folder."
+        "INVALID_REQUEST",
+        `Request body must include a 'folderUrls' array with 1 to ${MAX_BATCH_SIZE} entries.`
       );
-      return res.status(500).json(errorBody);
+      return res.status(400).json(errorBody);
     }
+
+    if (!chargeExtractions(res, folderUrls.length)) {
+      return;
+    }
+
+    const results = await mapWithConcurrency(
+      folderUrls,
+      BATCH_CONCURRENCY,
+      (folderUrl) =>
+        extractBatchFolder(typeof folderUrl === "string" ? folderUrl : "", options)
+    );
+
+    const failed = results.filter((entry) => entry.error).length;
+    recordFilesListed(
+      res,
+      results.reduce((total, entry) => total + (entry.result?.files.length ?? 0), 0)
+    );
+    const responseBody: BatchExtractResponse = {
+      results,
+      succeeded: results.length - failed,
+      failed,
+    };
+    return res.status(200).json(responseBody);
   }
 );
 
+const isBatchResultLike = (value: unknown): value is BatchFolderResult => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { folderUrl, result, error } = value as Record<string, unknown>;
+  if (typeof folderUrl !== "string") {
+    return false;
+  }
+  if (result !== undefined && result !== null) {
+    const { files } = result as Record<string, unknown>;
+    return typeof result === "object" && Array.isArray(files) && files.every(isDriveFileLike);
+  }
+  return typeof error === "object" && error !== null;
+};
+
 interface ExportRequestBody {
-  files: DriveFile[];
+  files?: DriveFile[];
   folderId?: string;
+  /** `results` from /extract/batch; written as one sheet per folder */
+  results?: BatchFolderResult[];
+  filter?: unknown;
+  sort?: unknown;
+  /** Re-pick the Export URL column, e.g. { document: "pdf" } */
+  exportFormats?: unknown;
+  /** xlsx (default), csv, json, ndjson, html or md */
+  format?: unknown;
+  /** Column keys to include, in order */
+  columns?: unknown;
+  /** xlsx only: add a summary sheet with counts by MIME type and subfolder */
+  summary?: unknown;
+  /** xlsx only: add a sheet of duplicate files across all exported files */
+  duplicates?: unknown;
+  /** xlsx only: add a sheet of files' sharing, from listings made with `audit: true` */
+  sharingAudit?: unknown;
 }
 
 extractRouter.post(
   "/export",
-  async (req: Request<unknown, unknown, ExportRequestBody>, res: Response) => {
-    const { files } = req.body;
-
-    if (!files || !Array.isArray(files) || files.length === 0) {
+  async (
+    req: Request<unknown, unknown, ExportRequestBody>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const {
+      files,
+      results,
+      filter,
+      sort,
+      exportFormats,
+      summary,
+      duplicates,
+      sharingAudit,
+    } = req.body;
+    const hasFiles = Array.isArray(files) && files.length > 0;
+    const hasResults = Array.isArray(results) && results.length > 0;
+
+    if (!hasFiles && !hasResults) {
       const errorBody = buildErrorResponse(
         "INVALID_FOLDER_URL",
-        "Request body must include a 'files' array with at least one file."
+        "Request body must include a 'files' array with at least one file, or a 'results' array from /extract/batch."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (summary !== undefined && typeof summary !== "boolean") {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'summary' must be a boolean."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (duplicates !== undefined && typeof duplicates !== "boolean") {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'duplicates' must be a boolean."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (sharingAudit !== undefined && typeof sharingAudit !== "boolean") {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'sharingAudit' must be a boolean."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    let query: FileQuery;
+    let preferences: ExportFormatPreferences | undefined;
+    let format: ExportFormat;
+    let columns: ExportColumnKey[];
+    try {
+      query = parseFileQuery(filter, sort);
+      preferences = parseExportFormatPreferences(exportFormats);
+      format = parseExportFormat(req.body.format);
+      columns = parseExportColumns(req.body.columns);
+    } catch (error: unknown) {
+      if (
+        error instanceof InvalidFileQueryError ||
+        error instanceof InvalidExportFormatError ||
+        error instanceof InvalidExportRequestError
+      ) {
+        const errorBody = buildErrorResponse(error.code, error.message);
+        return res.status(400).json(errorBody);
+      }
+      return next(error);
+    }
+
+    if (hasResults && !results!.every(isBatchResultLike)) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "Each entry in 'results' must have a 'folderUrl' and either a 'result' with a 'files' array or an 'error', as returned by /extract/batch."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (!hasResults && !files!.every(isDriveFileLike)) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "Each entry in 'files' must have a string 'id' and 'name'; 'size' must be a number and other metadata strings when present."
       );
       return res.status(400).json(errorBody);
     }
 
     try {
-      const workbook = XLSX.utils.book_new();
-      const headers = ["Name", "ID", "MIME Type", "View URL", "Download URL"];
-      const data = [headers];
-
-      for (const file of files) {
-        data.push([
-          file.name,
-          file.id,
-          file.mimeType,
-          file.viewUrl,
-          typeof file.downloadUrl === "string" ? file.downloadUrl : "",
-        ]);
+      const prepareFiles = (input: DriveFile[]): DriveFile[] =>
+        applyExportPreferences(applyFileQuery(input, query), preferences);
+
+      const sheets: ExportSheet[] = [];
+      const failures: ExportFailure[] = [];
+      if (hasResults) {
+        for (const entry of results!) {
+          if (entry.result) {
+            sheets.push({
+              name: entry.result.folderId || entry.folderUrl,
+              files: prepareFiles(entry.result.files),
+            });
+          } else {
+            failures.push({
+              folderUrl: entry.folderUrl,
+              code: entry.error?.code ?? "",
+              message: entry.error?.message ?? "",
+            });
+          }
+        }
+      } else {
+        sheets.push({ name: "Files", files: prepareFiles(files!) });
       }
 
-      const worksheet = XLSX.utils.aoa_to_sheet(data);
-      worksheet["!cols"] = [
-        { wch: 30 },
-        { wch: 40 },
-        { wch: 50 },
-        { wch: 60 },
-        { wch: 60 },
-      ];
-
-      XLSX.utils.book_append_sheet(workbook, worksheet, "Files");
-
-      const xlsxBuffer = XLSX.write(workbook, {
-        type: "buffer",
-        bookType: "xlsx",
-        cellStyles: true,
+      const rendered = renderExport(sheets, {
+        format,
+        columns,
+        summary,
+        duplicates: duplicates
+          ? findDuplicates(sheets.flatMap((sheet) => sheet.files))
+          : undefined,
+        sharingAudit,
+        failures,
       });
 
-      const filename = `drive-files-${Date.now()}.xlsx`;
+      const filename = `drive-files-${Date.now()}.${rendered.extension}`;
       
-      res.setHeader(
-        "Content-Type",
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      );
+      res.setHeader("Content-Type", rendered.contentType);
       res.setHeader(
         "Content-Disposition",
         `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`
       );
-      res.setHeader("Content-Length", xlsxBuffer.length.toString());
+      res.setHeader("Content-Length", rendered.body.length.toString());
       res.setHeader("Cache-Control", "no-cache, no-store, must-revalidate");
       res.setHeader("Pragma", "no-cache");
       res.setHeader("Expires", "0");
 
-      return res.status(200).send(xlsxBuffer);
+      return res.status(200).send(rendered.body);
     } catch (error: unknown) {
-      console.error("[extractRoute] Excel export error:", error);
+      log.error("Export error", { error });
       const errorBody = buildErrorResponse(
         "INTERNAL_ERROR",
-        "Unexpected error while generating Excel file."
+        `Unexpected error while generating ${format.toUpperCase()} export.`
       );
       return res.status(500).json(errorBody);
     }
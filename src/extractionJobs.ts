@@ -0,0 +1,148 @@
+import { randomUUID } from "crypto";
+import { scrapePublicFolder, ExtractionCancelledError } from "./publicScrapeService";
+import { scrapeErrorToResponse } from "./errorResponses";
+import { buildFolderExtractResponse } from "./extractRequest";
+import { InMemoryJobStore, isFinishedJobState } from "./jobStore";
+import type { ExtractionJob, JobStore } from "./jobStore";
+import type { DriveKind, JobStatusResponse } from "./fileTypes";
+import type { FileQuery } from "./fileFilters";
+import type { ExportFormatPreferences } from "./workspaceExports";
+import { usageTracker } from "./usageTracker";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "extractionJobs" });
+
+export const jobStore: JobStore = new InMemoryJobStore(
+  Number(process.env.JOB_TTL_MS) || undefined
+);
+
+export const toJobStatusResponse = (job: ExtractionJob): JobStatusResponse => ({
+  id: job.id,
+  state: job.state,
+  folderId: job.folderId,
+  progress: job.progress,
+  createdAt: job.createdAt.toISOString(),
+  updatedAt: job.updatedAt.toISOString(),
+  error: job.failure?.body.error,
+});
+
+// Abort handles can't be persisted, so they stay in this process
+const runningJobs = new Map<string, AbortController>();
+
+const runExtractionJob = async (
+  job: ExtractionJob,
+  store: JobStore,
+  controller: AbortController
+): Promise<void> => {
+  try {
+    await store.update(job.id, { state: "running" });
+
+    const result = await scrapePublicFolder(job.folderId, {
+      recursive: job.recursive,
+      maxDepth: job.maxDepth,
+      resourceKey: job.resourceKey,
+      driveKind: job.driveKind,
+      includeSharing: job.includeSharing,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        void store.update(job.id, { progress });
+      },
+    });
+
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    const response = buildFolderExtractResponse(
+      job.folderId,
+      result,
+      job.query,
+      job.exportFormats
+    );
+    if (job.apiKeyId) {
+      usageTracker.record(job.apiKeyId, { files: response.files.length });
+    }
+
+    await store.update(job.id, {
+      state: "succeeded",
+      progress: {
+        foldersVisited: result.foldersVisited,
+        filesFound: result.files.length,
+      },
+      result: response,
+    });
+  } catch (error: unknown) {
+    if (error instanceof ExtractionCancelledError || controller.signal.aborted) {
+      return;
+    }
+
+    log.error("Job failed", { jobId: job.id, error });
+    await store.update(job.id, {
+      state: "failed",
+      failure: scrapeErrorToResponse(error),
+    });
+  } finally {
+    runningJobs.delete(job.id);
+  }
+};
+
+/**
+ * Queue an extraction and start it in the background
+ */
+export const startExtractionJob = async (
+  folderId: string,
+  options: {
+    recursive?: boolean;
+    maxDepth?: number;
+    resourceKey?: string;
+    driveKind?: DriveKind;
+    includeSharing?: boolean;
+    query?: FileQuery;
+    exportFormats?: ExportFormatPreferences;
+    apiKeyId?: string;
+  },
+  store: JobStore = jobStore
+): Promise<ExtractionJob> => {
+  const now = new Date();
+  const job: ExtractionJob = {
+    id: randomUUID(),
+    folderId,
+    recursive: options.recursive,
+    maxDepth: options.maxDepth,
+    resourceKey: options.resourceKey,
+    driveKind: options.driveKind,
+    includeSharing: options.includeSharing,
+    query: options.query,
+    exportFormats: options.exportFormats,
+    apiKeyId: options.apiKeyId,
+    state: "queued",
+    progress: { foldersVisited: 0, filesFound: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.create(job);
+
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+  void runExtractionJob(job, store, controller);
+
+  return job;
+};
+
+/**
+ * Cancel a queued or running job. Returns undefined for unknown IDs and the
+ * unchanged job if it had already finished.
+ */
+export const cancelExtractionJob = async (
+  id: string,
+  store: JobStore = jobStore
+): Promise<ExtractionJob | undefined> => {
+  const job = await store.get(id);
+  if (!job || isFinishedJobState(job.state)) {
+    return job;
+  }
+
+  runningJobs.get(id)?.abort();
+  return store.update(id, { state: "cancelled" });
+};
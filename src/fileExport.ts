@@ -0,0 +1,614 @@
+import * as XLSX from "xlsx";
+import type { DriveFile, DuplicateReport } from "./fileTypes";
+
+// ============================================================================
+// INTERFACES & CUSTOM ERRORS
+// ============================================================================
+
+export type ExportFormat = "xlsx" | "csv" | "json" | "ndjson" | "html" | "md";
+
+export type ExportColumnKey =
+  | "name"
+  | "path"
+  | "id"
+  | "mimeType"
+  | "viewUrl"
+  | "downloadUrl"
+  | "exportUrl"
+  | "size"
+  | "createdTime"
+  | "modifiedTime"
+  | "lastModifyingUser"
+  | "md5Checksum"
+  | "thumbnailLink"
+  | "description";
+
+/** One group of files; becomes a worksheet in XLSX and a section elsewhere */
+export interface ExportSheet {
+  name: string;
+  files: DriveFile[];
+}
+
+/** A folder that failed in a batch, listed alongside the exported files */
+export interface ExportFailure {
+  folderUrl: string;
+  code: string;
+  message: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumnKey[];
+  /** XLSX only: add a sheet with counts by MIME type and by subfolder */
+  summary?: boolean;
+  /** XLSX only: add a sheet listing these duplicate groups */
+  duplicates?: DuplicateReport;
+  /** XLSX only: add a sheet of files' sharing audits, flagged files first */
+  sharingAudit?: boolean;
+  failures?: ExportFailure[];
+}
+
+export interface RenderedExport {
+  body: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export class InvalidExportRequestError extends Error {
+  public readonly code: "INVALID_REQUEST" = "INVALID_REQUEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidExportRequestError";
+  }
+}
+
+interface ExportColumn {
+  key: ExportColumnKey;
+  header: string;
+  width: number;
+  /** Rendered as a hyperlink in XLSX, HTML and Markdown */
+  link?: boolean;
+  value: (file: DriveFile) => string | number;
+}
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+// Files posted back by clients may predate the metadata fields
+const text = (value: unknown): string => (typeof value === "string" ? value : "");
+
+const EXPORT_COLUMNS: readonly ExportColumn[] = [
+  { key: "name", header: "Name", width: 30, value: (file) => text(file.name) },
+  { key: "path", header: "Path", width: 30, value: (file) => text(file.path) },
+  { key: "id", header: "ID", width: 40, value: (file) => text(file.id) },
+  { key: "mimeType", header: "MIME Type", width: 50, value: (file) => text(file.mimeType) },
+  { key: "viewUrl", header: "View URL", width: 60, link: true, value: (file) => text(file.viewUrl) },
+  { key: "downloadUrl", header: "Download URL", width: 60, link: true, value: (file) => text(file.downloadUrl) },
+  { key: "exportUrl", header: "Export URL", width: 60, link: true, value: (file) => text(file.exportUrl) },
+  {
+    key: "size",
+    header: "Size (bytes)",
+    width: 14,
+    value: (file) => (typeof file.size === "number" ? file.size : ""),
+  },
+  { key: "createdTime", header: "Created", width: 24, value: (file) => text(file.createdTime) },
+  { key: "modifiedTime", header: "Modified", width: 24, value: (file) => text(file.modifiedTime) },
+  { key: "lastModifyingUser", header: "Last Modified By", width: 25, value: (file) => text(file.lastModifyingUser) },
+  { key: "md5Checksum", header: "MD5 Checksum", width: 34, value: (file) => text(file.md5Checksum) },
+  { key: "thumbnailLink", header: "Thumbnail", width: 60, link: true, value: (file) => text(file.thumbnailLink) },
+  { key: "description", header: "Description", width: 50, value: (file) => text(file.description) },
+];
+
+const COLUMNS_BY_KEY = new Map(EXPORT_COLUMNS.map((column) => [column.key, column]));
+
+const resolveColumns = (keys: ExportColumnKey[]): ExportColumn[] =>
+  keys.map((key) => COLUMNS_BY_KEY.get(key)!);
+
+export const DEFAULT_EXPORT_COLUMNS: readonly ExportColumnKey[] = EXPORT_COLUMNS.map(
+  (column) => column.key
+);
+
+const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  xlsx: {
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+  ndjson: { contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  md: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export const parseExportFormat = (value: unknown): ExportFormat => {
+  if (value === undefined) {
+    return "xlsx";
+  }
+  if (
+    typeof value !== "string" ||
+    !Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value)
+  ) {
+    throw new InvalidExportRequestError(
+      `'format' must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}.`
+    );
+  }
+  return value as ExportFormat;
+};
+
+/**
+ * Validate a `columns` list. Order is preserved, so it also sets column order.
+ */
+export const parseExportColumns = (value: unknown): ExportColumnKey[] => {
+  if (value === undefined) {
+    return [...DEFAULT_EXPORT_COLUMNS];
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidExportRequestError("'columns' must be a non-empty array.");
+  }
+
+  const columns: ExportColumnKey[] = [];
+  for (const key of value) {
+    if (typeof key !== "string" || !COLUMNS_BY_KEY.has(key as ExportColumnKey)) {
+      throw new InvalidExportRequestError(
+        `Unknown column '${String(key)}'. Expected any of: ${DEFAULT_EXPORT_COLUMNS.join(", ")}.`
+      );
+    }
+    if (!columns.includes(key as ExportColumnKey)) {
+      columns.push(key as ExportColumnKey);
+    }
+  }
+  return columns;
+};
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+// Excel limits sheet names to 31 characters and forbids : \ / ? * [ ]
+const MAX_SHEET_NAME_LENGTH = 31;
+
+export const toUniqueSheetName = (name: string, used: Set<string>): string => {
+  const base =
+    name.replace(/[:\\/?*[\]]/g, "_").slice(0, MAX_SHEET_NAME_LENGTH) || "Sheet";
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    candidate = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const isHttpUrl = (value: string): boolean => /^https?:\/\//i.test(value);
+
+const buildFilesWorksheet = (
+  files: DriveFile[],
+  columns: ExportColumn[]
+): XLSX.WorkSheet => {
+  const data: (string | number)[][] = [columns.map((column) => column.header)];
+  for (const file of files) {
+    data.push(columns.map((column) => column.value(file)));
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet["!cols"] = columns.map((column) => ({ wch: column.width }));
+
+  // Make URL cells clickable
+  columns.forEach((column, columnIndex) => {
+    if (!column.link) {
+      return;
+    }
+    files.forEach((file, rowIndex) => {
+      const url = column.value(file);
+      if (typeof url === "string" && isHttpUrl(url)) {
+        const address = XLSX.utils.encode_cell({ r: rowIndex + 1, c: columnIndex });
+        worksheet[address].l = { Target: url };
+      }
+    });
+  });
+
+  return worksheet;
+};
+
+const countBy = (files: DriveFile[], key: (file: DriveFile) => string): [string, number][] => {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const value = key(file);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+const buildSummaryWorksheet = (sheets: ExportSheet[]): XLSX.WorkSheet => {
+  const files = sheets.flatMap((sheet) => sheet.files);
+  const data: (string | number)[][] = [
+    ["Total files", files.length],
+    [],
+    ["MIME Type", "Files"],
+    ...countBy(files, (file) => text(file.mimeType) || "(unknown)"),
+    [],
+    ["Subfolder", "Files"],
+    ...countBy(files, (file) => text(file.path) || "(root)"),
+  ];
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet["!cols"] = [{ wch: 60 }, { wch: 12 }];
+  return worksheet;
+};
+
+/**
+ * One row per file, grouped, with the likely original of each group first
+ */
+const buildDuplicatesWorksheet = (report: DuplicateReport): XLSX.WorkSheet => {
+  const header = ["Group", "Match", "Role", "Name", "Path", "MIME Type", "Size (bytes)", "Created", "View URL"];
+  const data: (string | number)[][] = [
+    ["Duplicate groups", report.groups.length],
+    ["Duplicate files", report.duplicateFiles],
+    ["Wasted bytes", report.wastedBytes],
+    [],
+    header,
+  ];
+  const links: { row: number; url: string }[] = [];
+
+  report.groups.forEach((group, groupIndex) => {
+    group.files.forEach((file, fileIndex) => {
+      const url = text(file.viewUrl);
+      if (isHttpUrl(url)) {
+        links.push({ row: data.length, url });
+      }
+      data.push([
+        groupIndex + 1,
+        group.match,
+        fileIndex === 0 ? "Original" : "Copy",
+        text(file.name),
+        text(file.path),
+        text(file.mimeType),
+        typeof file.size === "number" ? file.size : "",
+        text(file.createdTime),
+        url,
+      ]);
+    });
+  });
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet["!cols"] = [18, 10, 10, 30, 30, 40, 14, 24, 60].map((wch) => ({ wch }));
+  for (const { row, url } of links) {
+    worksheet[XLSX.utils.encode_cell({ r: row, c: header.length - 1 })].l = { Target: url };
+  }
+  return worksheet;
+};
+
+const yesNo = (value: boolean | null): string =>
+  value === null ? "Unknown" : value ? "Yes" : "No";
+
+/**
+ * Files listed with `audit: true`, flagged ones first. Filters are enabled
+ * on the header row so reviewers can narrow down by flag or level.
+ */
+const buildSharingAuditWorksheet = (sheets: ExportSheet[]): XLSX.WorkSheet => {
+  const header = [
+    "Flags",
+    "Name",
+    "Path",
+    "Sharing",
+    "Domain",
+    "Parent Sharing",
+    "Broader Than Parent",
+    "Viewers Can Download",
+    "Owner",
+    "View URL",
+  ];
+  const audited = sheets
+    .flatMap((sheet) => sheet.files)
+    // Files posted back by clients may carry anything in `sharing`
+    .filter((file) => Array.isArray(file.sharing?.flags))
+    .sort((a, b) => b.sharing!.flags.length - a.sharing!.flags.length);
+
+  const data: (string | number)[][] = [header];
+  for (const file of audited) {
+    const sharing = file.sharing!;
+    data.push([
+      sharing.flags.join(", "),
+      text(file.name),
+      text(file.path),
+      sharing.level,
+      sharing.domain ?? "",
+      sharing.parentLevel,
+      yesNo(sharing.broaderThanParent),
+      yesNo(sharing.viewersCanDownload),
+      sharing.owner ?? "",
+      text(file.viewUrl),
+    ]);
+  }
+
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  worksheet["!cols"] = [40, 30, 30, 18, 20, 18, 12, 12, 30, 60].map((wch) => ({ wch }));
+  worksheet["!autofilter"] = {
+    ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: audited.length, c: header.length - 1 } }),
+  };
+  audited.forEach((file, index) => {
+    const url = text(file.viewUrl);
+    if (isHttpUrl(url)) {
+      worksheet[XLSX.utils.encode_cell({ r: index + 1, c: header.length - 1 })].l = { Target: url };
+    }
+  });
+  return worksheet;
+};
+
+/**
+ * Build the XLSX workbook: one sheet per ExportSheet, then the optional
+ * summary, duplicates and sharing audit sheets and a sheet listing batch
+ * failures
+ */
+export const buildExportWorkbook = (
+  sheets: ExportSheet[],
+  options: ExportOptions
+): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  const columns = resolveColumns(options.columns);
+
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildFilesWorksheet(sheet.files, columns),
+      toUniqueSheetName(sheet.name, usedNames)
+    );
+  }
+
+  if (options.summary) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildSummaryWorksheet(sheets),
+      toUniqueSheetName("Summary", usedNames)
+    );
+  }
+
+  if (options.duplicates) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildDuplicatesWorksheet(options.duplicates),
+      toUniqueSheetName("Duplicates", usedNames)
+    );
+  }
+
+  if (options.sharingAudit) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildSharingAuditWorksheet(sheets),
+      toUniqueSheetName("Sharing Audit", usedNames)
+    );
+  }
+
+  if (options.failures && options.failures.length > 0) {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ["Folder URL", "Error Code", "Message"],
+      ...options.failures.map((failure) => [failure.folderUrl, failure.code, failure.message]),
+    ]);
+    worksheet["!cols"] = [{ wch: 60 }, { wch: 25 }, { wch: 80 }];
+    XLSX.utils.book_append_sheet(
+      workbook,
+      worksheet,
+      toUniqueSheetName("Errors", usedNames)
+    );
+  }
+
+  return workbook;
+};
+
+// ============================================================================
+// TEXT FORMATS
+// ============================================================================
+
+const toRecord = (file: DriveFile, columns: ExportColumn[]): Record<string, string | number> => {
+  const record: Record<string, string | number> = {};
+  for (const column of columns) {
+    record[column.key] = column.value(file);
+  }
+  return record;
+};
+
+// Spreadsheet apps execute cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  let cell = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+const escapeHtml = (value: string | number): string =>
+  String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const escapeMarkdown = (value: string | number): string =>
+  String(value).replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+
+const renderCsv = (sheets: ExportSheet[], columns: ExportColumn[]): string => {
+  // Multi-folder exports get a leading column saying which folder a row came from
+  const withFolder = sheets.length > 1;
+  const header = [...(withFolder ? ["Folder"] : []), ...columns.map((column) => column.header)];
+  const lines = [header.map(escapeCsv).join(",")];
+  for (const sheet of sheets) {
+    for (const file of sheet.files) {
+      const cells = [
+        ...(withFolder ? [sheet.name] : []),
+        ...columns.map((column) => column.value(file)),
+      ];
+      lines.push(cells.map(escapeCsv).join(","));
+    }
+  }
+  return `${lines.join("\r\n")}\r\n`;
+};
+
+const renderJson = (
+  sheets: ExportSheet[],
+  columns: ExportColumn[],
+  failures: ExportFailure[] | undefined
+): string => {
+  if (sheets.length === 1 && !failures?.length) {
+    return JSON.stringify({ files: sheets[0].files.map((file) => toRecord(file, columns)) }, null, 2);
+  }
+  return JSON.stringify(
+    {
+      folders: sheets.map((sheet) => ({
+        name: sheet.name,
+        files: sheet.files.map((file) => toRecord(file, columns)),
+      })),
+      errors: failures ?? [],
+    },
+    null,
+    2
+  );
+};
+
+const renderNdjson = (sheets: ExportSheet[], columns: ExportColumn[]): string => {
+  const withFolder = sheets.length > 1;
+  const lines: string[] = [];
+  for (const sheet of sheets) {
+    for (const file of sheet.files) {
+      const record = toRecord(file, columns);
+      lines.push(JSON.stringify(withFolder ? { folder: sheet.name, ...record } : record));
+    }
+  }
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+};
+
+const renderHtml = (
+  sheets: ExportSheet[],
+  columns: ExportColumn[],
+  failures: ExportFailure[] | undefined
+): string => {
+  const renderCell = (column: ExportColumn, file: DriveFile): string => {
+    const value = column.value(file);
+    if (column.link && typeof value === "string" && isHttpUrl(value)) {
+      const label = column.key === "viewUrl" ? file.name || value : column.header;
+      return `<a href="${escapeHtml(value)}" target="_blank" rel="noopener noreferrer">${escapeHtml(label)}</a>`;
+    }
+    return escapeHtml(value);
+  };
+
+  const sections = sheets.map((sheet) => {
+    const heading = sheets.length > 1 ? `<h2>${escapeHtml(sheet.name)}</h2>\n` : "";
+    const head = columns.map((column) => `<th>${escapeHtml(column.header)}</th>`).join("");
+    const rows = sheet.files
+      .map((file) => `<tr>${columns.map((column) => `<td>${renderCell(column, file)}</td>`).join("")}</tr>`)
+      .join("\n");
+    return `${heading}<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`;
+  });
+
+  if (failures && failures.length > 0) {
+    const rows = failures
+      .map((failure) => `<tr><td>${escapeHtml(failure.folderUrl)}</td><td>${escapeHtml(failure.code)}</td><td>${escapeHtml(failure.message)}</td></tr>`)
+      .join("\n");
+    sections.push(`<h2>Errors</h2>\n<table>\n<thead><tr><th>Folder URL</th><th>Error Code</th><th>Message</th></tr></thead>\n<tbody>\n${rows}\n</tbody>\n</table>`);
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    "<title>Drive files</title>",
+    "<style>body{font-family:sans-serif}table{border-collapse:collapse;margin-bottom:2em}th,td{border:1px solid #ccc;padding:4px 8px;text-align:left}</style>",
+    "</head>",
+    "<body>",
+    ...sections,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+};
+
+const renderMarkdown = (
+  sheets: ExportSheet[],
+  columns: ExportColumn[],
+  failures: ExportFailure[] | undefined
+): string => {
+  const renderCell = (column: ExportColumn, file: DriveFile): string => {
+    const value = column.value(file);
+    if (column.link && typeof value === "string" && isHttpUrl(value)) {
+      return `[${escapeMarkdown(column.header)}](<${value.replace(/>/g, "%3E")}>)`;
+    }
+    return escapeMarkdown(value);
+  };
+
+  const sections = sheets.map((sheet) => {
+    const lines = [
+      `| ${columns.map((column) => escapeMarkdown(column.header)).join(" | ")} |`,
+      `| ${columns.map(() => "---").join(" | ")} |`,
+      ...sheet.files.map((file) => `| ${columns.map((column) => renderCell(column, file)).join(" | ")} |`),
+    ];
+    const heading = sheets.length > 1 ? `## ${escapeMarkdown(sheet.name)}\n\n` : "";
+    return heading + lines.join("\n");
+  });
+
+  if (failures && failures.length > 0) {
+    sections.push(
+      [
+        "## Errors",
+        "",
+        "| Folder URL | Error Code | Message |",
+        "| --- | --- | --- |",
+        ...failures.map(
+          (failure) =>
+            `| ${escapeMarkdown(failure.folderUrl)} | ${escapeMarkdown(failure.code)} | ${escapeMarkdown(failure.message)} |`
+        ),
+      ].join("\n")
+    );
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+// ============================================================================
+// MAIN FUNCTION: renderExport
+// ============================================================================
+
+export const renderExport = (
+  sheets: ExportSheet[],
+  options: ExportOptions
+): RenderedExport => {
+  const { contentType, extension } = EXPORT_FORMATS[options.format];
+  const columns = resolveColumns(options.columns);
+
+  let body: Buffer;
+  switch (options.format) {
+    case "xlsx":
+      body = XLSX.write(buildExportWorkbook(sheets, options), {
+        type: "buffer",
+        bookType: "xlsx",
+        cellStyles: true,
+      });
+      break;
+    case "csv":
+      // BOM so Excel opens UTF-8 names correctly
+      body = Buffer.from(`\uFEFF${renderCsv(sheets, columns)}`, "utf8");
+      break;
+    case "json":
+      body = Buffer.from(renderJson(sheets, columns, options.failures), "utf8");
+      break;
+    case "ndjson":
+      body = Buffer.from(renderNdjson(sheets, columns), "utf8");
+      break;
+    case "html":
+      body = Buffer.from(renderHtml(sheets, columns, options.failures), "utf8");
+      break;
+    case "md":
+      body = Buffer.from(renderMarkdown(sheets, columns, options.failures), "utf8");
+      break;
+  }
+
+  return { body, contentType, extension };
+};
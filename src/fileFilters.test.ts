@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyFileQuery } from "./fileFilters";
+import type { DriveFile } from "./fileTypes";
+
+const file = (name: string, modifiedTime: string | null): DriveFile => ({
+  id: `id-${name}`,
+  name,
+  mimeType: "application/pdf",
+  viewUrl: "",
+  downloadUrl: null,
+  exportLinks: null,
+  exportUrl: null,
+  size: null,
+  createdTime: null,
+  modifiedTime,
+  lastModifyingUser: null,
+  md5Checksum: null,
+  thumbnailLink: null,
+  description: null,
+});
+
+const FILES = [
+  file("malformed", "not a date"),
+  file("newest", "2024-03-01T00:00:00Z"),
+  file("missing", null),
+  file("oldest", "2024-01-01T00:00:00Z"),
+  file("middle", "2024-02-01T00:00:00Z"),
+];
+
+describe("applyFileQuery sort by date", () => {
+  for (const order of ["asc", "desc"] as const) {
+    it(`sorts malformed and missing dates last (${order})`, () => {
+      const names = applyFileQuery(FILES, { sort: { by: "date", order } }).map(
+        (sorted) => sorted.name
+      );
+      const dated = ["oldest", "middle", "newest"];
+      assert.deepEqual(names.slice(0, 3), order === "asc" ? dated : dated.reverse());
+      assert.deepEqual(names.slice(3).sort(), ["malformed", "missing"]);
+    });
+  }
+});
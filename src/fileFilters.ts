@@ -0,0 +1,400 @@
+import type { DriveFile } from "./fileTypes";
+
+// ============================================================================
+// INTERFACES & CUSTOM ERRORS
+// ============================================================================
+
+export type FileCategory =
+  | "folder"
+  | "pdf"
+  | "image"
+  | "video"
+  | "audio"
+  | "document"
+  | "spreadsheet"
+  | "presentation"
+  | "archive"
+  | "text"
+  | "other";
+
+export interface FileFilter {
+  /** MIME types ("application/pdf"), wildcards ("image/*") or categories ("pdf") */
+  include?: string[];
+  exclude?: string[];
+  /** Glob matched against the whole file name, e.g. "*.pdf" or "Invoice-*" */
+  name?: string;
+  /** Case-insensitive substring of the file name */
+  nameContains?: string;
+  /** Size bounds in bytes. Files without a known size never match. */
+  minSize?: number;
+  maxSize?: number;
+  /** ISO 8601 bounds. Files without a known modified time never match. */
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+}
+
+export type FileSortField = "name" | "type" | "size" | "date";
+
+export interface FileSort {
+  by: FileSortField;
+  order?: "asc" | "desc";
+}
+
+export interface FileQuery {
+  filter?: FileFilter;
+  sort?: FileSort;
+}
+
+export class InvalidFileQueryError extends Error {
+  public readonly code: "INVALID_REQUEST" = "INVALID_REQUEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFileQueryError";
+  }
+}
+
+// ============================================================================
+// CATEGORIES
+// ============================================================================
+
+const CATEGORY_MIME_TYPES: Partial<Record<FileCategory, string[]>> = {
+  folder: ["application/vnd.google-apps.folder"],
+  pdf: ["application/pdf"],
+  document: [
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.oasis.opendocument.text",
+    "application/vnd.google-apps.document",
+    "application/rtf",
+  ],
+  spreadsheet: [
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.oasis.opendocument.spreadsheet",
+    "application/vnd.google-apps.spreadsheet",
+    "text/csv",
+  ],
+  presentation: [
+    "application/vnd.ms-powerpoint",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/vnd.oasis.opendocument.presentation",
+    "application/vnd.google-apps.presentation",
+  ],
+  archive: [
+    "application/zip",
+    "application/x-zip-compressed",
+    "application/vnd.rar",
+    "application/x-rar-compressed",
+    "application/x-7z-compressed",
+    "application/x-tar",
+    "application/gzip",
+    "application/x-gzip",
+  ],
+};
+
+const CATEGORY_PREFIXES: [string, FileCategory][] = [
+  ["image/", "image"],
+  ["video/", "video"],
+  ["audio/", "audio"],
+  ["text/", "text"],
+];
+
+const FILE_CATEGORIES: readonly FileCategory[] = [
+  "folder",
+  "pdf",
+  "image",
+  "video",
+  "audio",
+  "document",
+  "spreadsheet",
+  "presentation",
+  "archive",
+  "text",
+  "other",
+];
+
+export const getFileCategory = (mimeType: string): FileCategory => {
+  for (const [category, mimeTypes] of Object.entries(CATEGORY_MIME_TYPES)) {
+    if (mimeTypes!.includes(mimeType)) {
+      return category as FileCategory;
+    }
+  }
+  for (const [prefix, category] of CATEGORY_PREFIXES) {
+    if (mimeType.startsWith(prefix)) {
+      return category;
+    }
+  }
+  return "other";
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const MAX_PATTERN_LENGTH = 200;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: "string" | "number" | "object"): boolean =>
+  value === undefined || value === null || typeof value === type;
+
+/**
+ * Check a file posted by a client (e.g. from an earlier /extract response)
+ * has the fields filtering, sorting and exports read, with listing types
+ */
+export const isDriveFileLike = (value: unknown): value is DriveFile => {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  return (
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    isOptional(value.mimeType, "string") &&
+    isOptional(value.size, "number") &&
+    isOptional(value.createdTime, "string") &&
+    isOptional(value.modifiedTime, "string") &&
+    isOptional(value.md5Checksum, "string") &&
+    isOptional(value.path, "string") &&
+    isOptional(value.exportLinks, "object")
+  );
+};
+
+/**
+ * Case-insensitive glob match ("*" any run, "?" one character) without
+ * compiling a RegExp, so a client pattern can't backtrack exponentially.
+ * Worst case is O(pattern × name).
+ */
+const matchesGlob = (glob: string, name: string): boolean => {
+  const pattern = glob.toLowerCase();
+  const text = name.toLowerCase();
+  let p = 0;
+  let t = 0;
+  // Where to resume after the most recent "*"
+  let starAt = -1;
+  let starText = 0;
+
+  while (t < text.length) {
+    if (p < pattern.length && (pattern[p] === "?" || pattern[p] === text[t])) {
+      p++;
+      t++;
+    } else if (p < pattern.length && pattern[p] === "*") {
+      starAt = p++;
+      starText = t;
+    } else if (starAt !== -1) {
+      p = starAt + 1;
+      t = ++starText;
+    } else {
+      return false;
+    }
+  }
+  while (pattern[p] === "*") {
+    p++;
+  }
+  return p === pattern.length;
+};
+
+const readStringList = (value: unknown, field: string): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === "string" && entry)) {
+    throw new InvalidFileQueryError(`'filter.${field}' must be an array of non-empty strings.`);
+  }
+  return value;
+};
+
+const readPattern = (value: unknown, field: string): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || !value || value.length > MAX_PATTERN_LENGTH) {
+    throw new InvalidFileQueryError(
+      `'filter.${field}' must be a non-empty string of at most ${MAX_PATTERN_LENGTH} characters.`
+    );
+  }
+  return value;
+};
+
+const readSize = (value: unknown, field: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    throw new InvalidFileQueryError(`'filter.${field}' must be a non-negative number.`);
+  }
+  return value;
+};
+
+const readDate = (value: unknown, field: string): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw new InvalidFileQueryError(`'filter.${field}' must be an ISO 8601 date.`);
+  }
+  return value;
+};
+
+/**
+ * Validate a `filter` / `sort` pair from a request body
+ * Throws InvalidFileQueryError with a client-facing message
+ */
+export const parseFileQuery = (rawFilter: unknown, rawSort: unknown): FileQuery => {
+  const query: FileQuery = {};
+
+  if (rawFilter !== undefined) {
+    if (!isPlainObject(rawFilter)) {
+      throw new InvalidFileQueryError("'filter' must be an object.");
+    }
+
+    const filter: FileFilter = {
+      include: readStringList(rawFilter.include, "include"),
+      exclude: readStringList(rawFilter.exclude, "exclude"),
+      name: readPattern(rawFilter.name, "name"),
+      nameContains: readPattern(rawFilter.nameContains, "nameContains"),
+      minSize: readSize(rawFilter.minSize, "minSize"),
+      maxSize: readSize(rawFilter.maxSize, "maxSize"),
+      modifiedAfter: readDate(rawFilter.modifiedAfter, "modifiedAfter"),
+      modifiedBefore: readDate(rawFilter.modifiedBefore, "modifiedBefore"),
+    };
+
+    if (rawFilter.nameRegex !== undefined) {
+      throw new InvalidFileQueryError(
+        "'filter.nameRegex' is not supported. Use 'filter.name' (a glob) or 'filter.nameContains'."
+      );
+    }
+
+    query.filter = filter;
+  }
+
+  if (rawSort !== undefined) {
+    if (!isPlainObject(rawSort)) {
+      throw new InvalidFileQueryError("'sort' must be an object.");
+    }
+    const { by, order } = rawSort;
+    if (by !== "name" && by !== "type" && by !== "size" && by !== "date") {
+      throw new InvalidFileQueryError("'sort.by' must be one of: name, type, size, date.");
+    }
+    if (order !== undefined && order !== "asc" && order !== "desc") {
+      throw new InvalidFileQueryError("'sort.order' must be 'asc' or 'desc'.");
+    }
+    query.sort = { by, order };
+  }
+
+  return query;
+};
+
+// ============================================================================
+// FILTERING & SORTING
+// ============================================================================
+
+const matchesMimeSelector = (file: DriveFile, selector: string): boolean => {
+  // Posted files may omit the MIME type; they only match the "other" category
+  const mimeType = typeof file.mimeType === "string" ? file.mimeType : "";
+  if ((FILE_CATEGORIES as readonly string[]).includes(selector)) {
+    return getFileCategory(mimeType) === selector;
+  }
+  if (selector.endsWith("/*")) {
+    return mimeType.startsWith(selector.slice(0, -1));
+  }
+  return mimeType === selector;
+};
+
+const buildPredicate = (filter: FileFilter): ((file: DriveFile) => boolean) => {
+  const nameContains = filter.nameContains?.toLowerCase();
+  const modifiedAfter = filter.modifiedAfter ? Date.parse(filter.modifiedAfter) : undefined;
+  const modifiedBefore = filter.modifiedBefore ? Date.parse(filter.modifiedBefore) : undefined;
+  const hasSizeBound = filter.minSize !== undefined || filter.maxSize !== undefined;
+  const hasDateBound = modifiedAfter !== undefined || modifiedBefore !== undefined;
+
+  return (file) => {
+    if (filter.include && !filter.include.some((s) => matchesMimeSelector(file, s))) {
+      return false;
+    }
+    if (filter.exclude && filter.exclude.some((s) => matchesMimeSelector(file, s))) {
+      return false;
+    }
+    if (filter.name && !matchesGlob(filter.name, file.name)) {
+      return false;
+    }
+    if (nameContains && !file.name.toLowerCase().includes(nameContains)) {
+      return false;
+    }
+
+    if (hasSizeBound) {
+      if (typeof file.size !== "number") {
+        return false;
+      }
+      if (filter.minSize !== undefined && file.size < filter.minSize) {
+        return false;
+      }
+      if (filter.maxSize !== undefined && file.size > filter.maxSize) {
+        return false;
+      }
+    }
+
+    if (hasDateBound) {
+      const modified = file.modifiedTime ? Date.parse(file.modifiedTime) : NaN;
+      if (Number.isNaN(modified)) {
+        return false;
+      }
+      if (modifiedAfter !== undefined && modified < modifiedAfter) {
+        return false;
+      }
+      if (modifiedBefore !== undefined && modified > modifiedBefore) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+};
+
+const sortKey = (file: DriveFile, by: FileSortField): string | number | null => {
+  switch (by) {
+    case "name":
+      return file.name;
+    case "type":
+      return typeof file.mimeType === "string" ? file.mimeType : null;
+    case "size":
+      return typeof file.size === "number" ? file.size : null;
+    case "date": {
+      // A malformed timestamp counts as missing rather than comparing as NaN
+      const time = typeof file.modifiedTime === "string" ? Date.parse(file.modifiedTime) : NaN;
+      return Number.isNaN(time) ? null : time;
+    }
+  }
+};
+
+const compareFiles = (sort: FileSort) => {
+  const direction = sort.order === "desc" ? -1 : 1;
+  return (a: DriveFile, b: DriveFile): number => {
+    const left = sortKey(a, sort.by);
+    const right = sortKey(b, sort.by);
+
+    // Unknown values always sort last, regardless of direction
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? 1 : -1;
+    }
+    if (typeof left === "string" && typeof right === "string") {
+      return direction * left.localeCompare(right, undefined, { numeric: true, sensitivity: "base" });
+    }
+    return direction * ((left as number) - (right as number));
+  };
+};
+
+/**
+ * Apply a validated FileQuery, returning a new array
+ */
+export const applyFileQuery = (files: DriveFile[], query: FileQuery = {}): DriveFile[] => {
+  let result = query.filter ? files.filter(buildPredicate(query.filter)) : files.slice();
+  if (query.sort) {
+    result = result.sort(compareFiles(query.sort));
+  }
+  return result;
+};
+
+export const isEmptyFileQuery = (query: FileQuery | undefined): boolean =>
+  !query || (!query.filter && !query.sort);
@@ -1,22 +1,328 @@
-export interface DriveFile {
+/**
+ * Optional metadata carried alongside each listed file. Every field is null
+ * when the provider doesn't return it.
+ */
+export interface DriveFileMetadata {
+  /** Size in bytes; null for Google Workspace files and folders */
+  size: number | null;
+  /** ISO 8601 timestamps */
+  createdTime: string | null;
+  modifiedTime: string | null;
+  /** Display name (or email) of the last user to modify the file */
+  lastModifyingUser: string | null;
+  md5Checksum: string | null;
+  thumbnailLink: string | null;
+  description: string | null;
+}
+
+export interface DriveFile extends DriveFileMetadata {
   id: string;
   name: string;
   mimeType: string;
   viewUrl: string;
   downloadUrl: string | null;
+  /** Export URLs keyed by format for Google Workspace files; null otherwise */
+  exportLinks: Record<string, string> | null;
+  /** Export URL in the caller's preferred format (Workspace files only) */
+  exportUrl: string | null;
+  /** Folder path relative to the extracted root, e.g. "Reports/2024/Q1" */
+  path?: string;
+  parentId?: string;
+  /** Needed to open files shared with a link before Drive's 2021 security update */
+  resourceKey?: string;
+  /** ID of the shortcut this entry was resolved from, when listed via a shortcut */
+  shortcutId?: string;
+  /** Only present on listings requested with `audit: true` */
+  sharing?: FileSharingAudit;
+}
+
+/**
+ * Who can open an item without being added to it. "unknown" when the
+ * provider couldn't read the item's permissions.
+ */
+export type SharingLevel = "anyone-with-link" | "domain" | "restricted" | "unknown";
+
+export interface DriveSharingInfo {
+  level: SharingLevel;
+  /** Workspace domain the item is shared with, for "domain" */
+  domain: string | null;
+  /** Owner's email (or display name); null for Shared Drive items or when hidden */
+  owner: string | null;
+  /** False when downloading, copying and printing is disabled for viewers and commenters */
+  viewersCanDownload: boolean | null;
+}
+
+export type SharingFlag =
+  | "anyone-with-link"
+  | "broader-than-parent"
+  | "downloadable-by-viewers"
+  | "unknown-sharing";
+
+export interface FileSharingAudit extends DriveSharingInfo {
+  /** Sharing level of the folder the file was listed in */
+  parentLevel: SharingLevel;
+  /** Null when either level is unknown */
+  broaderThanParent: boolean | null;
+  /** Reasons to review the file; empty when nothing stands out */
+  flags: SharingFlag[];
+}
+
+export interface SharingAuditSummary {
+  filesAudited: number;
+  /** Files with at least one flag */
+  flaggedFiles: number;
+  byLevel: Record<SharingLevel, number>;
+  byFlag: Record<SharingFlag, number>;
 }
 
+/**
+ * "shared-drive" when a link points at the root of a Shared Drive (IDs
+ * starting with "0A"); any other folder, including folders inside a Shared
+ * Drive, is a "folder".
+ */
+export type DriveKind = "folder" | "shared-drive";
+
+/**
+ * "fixtures" serves folder trees from JSON files, for local development
+ */
+export type DriveProviderName = "apps-script" | "drive-api" | "fixtures";
+
+/**
+ * Which backend produced a listing
+ */
+export type ExtractSource = DriveProviderName;
+
+export type AccessMode = "public" | "user";
+
 export interface ExtractFilesResponse {
+  /** For single-file links, the file's parent folder (null when not visible) */
+  folderId: string | null;
+  /** Set when the request was a single-file link */
+  fileId?: string;
+  source: ExtractSource;
+  /** "user" when the folder was listed with the signed-in user's Google token */
+  accessMode?: AccessMode;
+  files: DriveFile[];
+  foldersVisited?: number;
+  truncated?: boolean;
+  /** Subfolders deeper than `maxDepth`, whose files are not included */
+  foldersBeyondMaxDepth?: number;
+  /** Present on paginated requests; null once the listing is exhausted */
+  nextPageToken?: string | null;
+  /** When the listing was fetched from the provider (ISO 8601) */
+  cachedAt?: string;
+  /** Present when the listing was requested with `audit: true` */
+  audit?: SharingAuditSummary;
+  message?: string;
+}
+
+export interface DriveFolderInfo extends DriveFileMetadata {
+  id: string;
+  name: string;
+  mimeType: string;
+  viewUrl: string;
+  parentId: string | null;
+  driveKind: DriveKind;
+  resourceKey?: string;
+}
+
+/**
+ * Metadata for a single Drive item, tagged by whether it is a file or a folder
+ */
+export type DriveItemResponse =
+  | { kind: "file"; source: ExtractSource; file: DriveFile }
+  | { kind: "folder"; source: ExtractSource; folder: DriveFolderInfo };
+
+export interface BatchFolderResult {
+  folderUrl: string;
+  folderId?: string;
+  /** Present when the folder was listed successfully */
+  result?: ExtractFilesResponse;
+  /** Present when the folder failed; uses the same codes as ErrorResponse */
+  error?: ErrorResponse["error"];
+}
+
+export interface BatchExtractResponse {
+  results: BatchFolderResult[];
+  succeeded: number;
+  failed: number;
+}
+
+export interface FolderDiff {
+  added: DriveFile[];
+  removed: DriveFile[];
+  /** Same `id`, different `name` */
+  renamed: { file: DriveFile; previousName: string }[];
+  /** Same `id`, changed content metadata or location */
+  modified: { file: DriveFile; changedFields: string[] }[];
+}
+
+export interface FolderDiffResponse {
   folderId: string;
-  source: "public";
+  since: { snapshotId: string; createdAt: string };
+  /** A stored snapshot, or the live listing when `snapshotId` is null */
+  to: { snapshotId: string | null; createdAt: string };
+  diff: FolderDiff;
+}
+
+/**
+ * "checksum": identical content (same md5Checksum). "name": no checksum to
+ * compare, so matched on normalized name, size and MIME type.
+ */
+export type DuplicateMatch = "checksum" | "name";
+
+export interface DuplicateGroup {
+  match: DuplicateMatch;
+  /** The checksum, or the normalized name the files share */
+  key: string;
+  mimeType: string;
+  /** Size of each copy in bytes; null for Workspace files */
+  size: number | null;
+  /** Bytes that could be freed by keeping a single copy */
+  wastedBytes: number;
+  /** Oldest copy first, since it is most likely the original */
   files: DriveFile[];
+}
+
+export interface DuplicateReport {
+  filesAnalyzed: number;
+  groups: DuplicateGroup[];
+  /** Files beyond the first in each group */
+  duplicateFiles: number;
+  wastedBytes: number;
+}
+
+export interface DuplicateReportResponse extends DuplicateReport {
+  /** Set when the files came from listing a folder */
+  folderId?: string;
+  source?: ExtractSource;
+  truncated?: boolean;
+  foldersBeyondMaxDepth?: number;
+}
+
+/**
+ * A Drive link found by /links/harvest, deduplicated by ID
+ */
+export interface HarvestedLink {
+  id: string;
+  /** First URL the ID was found in */
+  url: string;
+  resourceKey?: string;
+  /** How many times the ID appeared in the input */
+  occurrences: number;
+}
+
+export interface HarvestedDocumentLink extends HarvestedLink {
+  documentType: string;
+  mimeType: string;
+}
+
+export interface InvalidHarvestedLink {
+  url: string;
+  reason: string;
+  message: string;
+}
+
+export interface LinkHarvestResponse {
+  /** Folders and Shared Drive roots */
+  folders: (HarvestedLink & { driveKind: DriveKind })[];
+  files: HarvestedLink[];
+  /** Docs, Sheets, Slides, Forms and Drawings editor links */
+  documents: HarvestedDocumentLink[];
+  /** Google Drive/Docs URLs that don't point at anything we can list */
+  invalid: InvalidHarvestedLink[];
+  /** Extraction jobs started for the folders when `extract` was set */
+  jobs?: JobStatusResponse[];
+}
+
+export type WebhookDeliveryState = "delivered" | "failed";
+
+export interface WebhookDeliveryStatus {
+  state: WebhookDeliveryState;
+  attempts: number;
+  at: string;
+  /** HTTP status of the final attempt, when the endpoint responded */
+  responseStatus?: number;
+  error?: string;
+}
+
+export interface FolderWatchResponse {
+  id: string;
+  folderId: string;
+  webhookUrl: string;
+  intervalSeconds: number;
+  recursive: boolean;
+  maxDepth?: number;
+  createdAt: string;
+  lastCheckedAt: string | null;
+  lastChangedAt: string | null;
+  /** Set when the most recent check could not list the folder */
+  lastError?: ErrorResponse["error"];
+  lastDelivery: WebhookDeliveryStatus | null;
+  /** Only returned when the watch is created */
+  secret?: string;
+}
+
+/** Body POSTed to a watch's webhook URL when the folder listing changes */
+export interface FolderChangeWebhookPayload {
+  event: "folder.changed";
+  deliveryId: string;
+  watchId: string;
+  folderId: string;
+  detectedAt: string;
+  diff: FolderDiff;
+}
+
+export type HealthCheckStatus = "ok" | "failed" | "skipped";
+
+export interface HealthCheckResult {
+  name: "credentials" | "token" | "provider";
+  status: HealthCheckStatus;
+  durationMs: number;
+  /** Why the check failed or was skipped */
   message?: string;
 }
 
+export interface ReadinessResponse {
+  ready: boolean;
+  /** True while the process is draining connections before exit */
+  shuttingDown: boolean;
+  checkedAt: string;
+  checks: HealthCheckResult[];
+}
+
+export interface DiagnosticsResponse {
+  provider: DriveProviderName;
+  nodeEnv: string | null;
+  nodeVersion: string;
+  uptimeSeconds: number;
+  /** Where service account credentials come from; never the credentials themselves */
+  credentialsSource: "env" | "key-file" | "missing";
+  /** Which settings are present. Values are never reported. */
+  config: Record<string, boolean>;
+  readiness: ReadinessResponse;
+}
+
 export type ExtractErrorCode =
   | "INVALID_FOLDER_URL"
+  | "INVALID_REQUEST"
   | "FOLDER_NOT_FOUND"
+  | "FILE_NOT_FOUND"
   | "FOLDER_ACCESS_FORBIDDEN"
+  | "JOB_NOT_FOUND"
+  | "JOB_NOT_FINISHED"
+  | "JOB_CANCELLED"
+  | "SNAPSHOT_NOT_FOUND"
+  | "WATCH_NOT_FOUND"
+  | "UNAUTHORIZED"
+  | "ORIGIN_NOT_ALLOWED"
+  | "RATE_LIMIT_EXCEEDED"
+  | "QUOTA_EXCEEDED"
+  | "API_KEY_NOT_FOUND"
+  | "OAUTH_NOT_CONFIGURED"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_RATE_LIMITED"
+  | "UPSTREAM_UNAVAILABLE"
   | "INTERNAL_ERROR";
 
 export interface ErrorResponse {
@@ -27,3 +333,20 @@ export interface ErrorResponse {
   };
 }
 
+
+export type JobState = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobProgress {
+  foldersVisited: number;
+  filesFound: number;
+}
+
+export interface JobStatusResponse {
+  id: string;
+  state: JobState;
+  folderId: string;
+  progress: JobProgress;
+  createdAt: string;
+  updatedAt: string;
+  error?: ErrorResponse["error"];
+}
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import { buildErrorResponse, sendScrapeError } from "./errorResponses";
+import { getDriveItem } from "./publicScrapeService";
+
+export const filesRouter = Router();
+
+const ITEM_ID_PATTERN = /^[A-Za-z0-9_-]{10,}$/;
+const RESOURCE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * Metadata for a single file or folder. Responds with `kind: "file"` and a
+ * DriveFile, or `kind: "folder"` and the folder's details.
+ * Pass `?resourcekey=` for items shared before Drive's resource key update.
+ */
+filesRouter.get("/files/:id", async (req: Request<{ id: string }>, res: Response) => {
+  const { id } = req.params;
+  if (!ITEM_ID_PATTERN.test(id)) {
+    const errorBody = buildErrorResponse(
+      "INVALID_REQUEST",
+      "The file ID in the URL is not valid."
+    );
+    return res.status(400).json(errorBody);
+  }
+
+  const resourceKey = req.query.resourcekey ?? req.query.resourceKey;
+  if (
+    resourceKey !== undefined &&
+    (typeof resourceKey !== "string" || !RESOURCE_KEY_PATTERN.test(resourceKey))
+  ) {
+    const errorBody = buildErrorResponse(
+      "INVALID_REQUEST",
+      "'resourcekey' is not valid."
+    );
+    return res.status(400).json(errorBody);
+  }
+
+  try {
+    const item = await getDriveItem(id, { resourceKey });
+    return res.status(200).json(item);
+  } catch (error: unknown) {
+    return sendScrapeError(res, error, "file");
+  }
+});
@@ -0,0 +1,174 @@
+import fs from "fs";
+import path from "path";
+import type { DriveSharingInfo } from "./fileTypes";
+import type {
+  DriveListingProvider,
+  DriveItem,
+  DriveItemDetails,
+  DriveItemPage,
+  GetItemOptions,
+  ListFolderPageOptions,
+} from "./driveListingProvider";
+import { EMPTY_FILE_METADATA, FOLDER_MIME_TYPE, buildViewUrl } from "./driveListingProvider";
+import {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  InvalidPageTokenError,
+} from "./scrapeErrors";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * One node of a fixture tree. Folders have `children`; anything else is a
+ * file. Fields left out get the same defaults a real listing would have.
+ */
+export interface FixtureNode {
+  id: string;
+  name: string;
+  mimeType?: string;
+  /** "forbidden" makes the folder (or file) behave like an unshared one */
+  access?: "public" | "forbidden";
+  resourceKey?: string;
+  size?: number;
+  createdTime?: string;
+  modifiedTime?: string;
+  lastModifyingUser?: string;
+  md5Checksum?: string;
+  description?: string;
+  /** Defaults: "restricted" for forbidden nodes, "anyone-with-link" otherwise */
+  sharing?: Partial<DriveSharingInfo>;
+  children?: FixtureNode[];
+}
+
+interface IndexedNode {
+  node: FixtureNode;
+  parentId: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "fixtures", "drive");
+
+const isFolder = (node: FixtureNode): boolean =>
+  Array.isArray(node.children) || node.mimeType === FOLDER_MIME_TYPE;
+
+const toSharingInfo = (node: FixtureNode): DriveSharingInfo => ({
+  level: node.access === "forbidden" ? "restricted" : "anyone-with-link",
+  domain: null,
+  owner: null,
+  viewersCanDownload: true,
+  ...node.sharing,
+});
+
+const toDriveItem = (node: FixtureNode, includeSharing?: boolean): DriveItem => {
+  const folder = isFolder(node);
+  return {
+    ...EMPTY_FILE_METADATA,
+    id: node.id,
+    name: node.name,
+    mimeType: folder ? FOLDER_MIME_TYPE : node.mimeType ?? "application/octet-stream",
+    viewUrl: buildViewUrl(node.id, folder, node.resourceKey),
+    downloadUrl: folder ? null : `https://drive.google.com/uc?export=download&id=${node.id}`,
+    kind: folder ? "folder" : "file",
+    ...(node.resourceKey ? { resourceKey: node.resourceKey } : {}),
+    size: node.size ?? null,
+    createdTime: node.createdTime ?? null,
+    modifiedTime: node.modifiedTime ?? null,
+    lastModifyingUser: node.lastModifyingUser ?? null,
+    md5Checksum: node.md5Checksum ?? null,
+    description: node.description ?? null,
+    ...(includeSharing ? { sharing: toSharingInfo(node) } : {}),
+  };
+};
+
+// ============================================================================
+// PROVIDER: JSON fixtures on disk
+// ============================================================================
+
+/**
+ * Serves folder trees from every `*.json` file in `fixturesDir`, each
+ * holding one root FixtureNode. IDs not in any tree are "not found".
+ * Lets the whole API run without Google credentials or network access.
+ */
+export class FixtureProvider implements DriveListingProvider {
+  public readonly name = "fixtures" as const;
+
+  private index: Map<string, IndexedNode> | null = null;
+
+  constructor(
+    private readonly fixturesDir = process.env.DRIVE_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+  ) {}
+
+  async listFolderPage(
+    folderId: string,
+    options: ListFolderPageOptions = {}
+  ): Promise<DriveItemPage> {
+    const entry = this.getIndex().get(folderId);
+    if (!entry || !isFolder(entry.node)) {
+      throw new FolderNotFoundError(`Folder ${folderId} not found`);
+    }
+    if (entry.node.access === "forbidden") {
+      throw new PublicAccessForbiddenError(`Folder ${folderId} access forbidden`);
+    }
+
+    // Page tokens are plain offsets into the folder's children
+    const offset = options.pageToken ? Number(options.pageToken) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidPageTokenError();
+    }
+    const children = entry.node.children ?? [];
+    const end = options.pageSize ? offset + options.pageSize : children.length;
+
+    return {
+      items: children.slice(offset, end).map((child) => toDriveItem(child, options.includeSharing)),
+      nextPageToken: end < children.length ? String(end) : null,
+    };
+  }
+
+  async getItem(id: string, options: GetItemOptions = {}): Promise<DriveItemDetails> {
+    const entry = this.getIndex().get(id);
+    if (!entry) {
+      throw new FileNotFoundError(`File ${id} not found`);
+    }
+    if (entry.node.access === "forbidden") {
+      throw new PublicAccessForbiddenError(`File ${id} access forbidden`);
+    }
+    return { ...toDriveItem(entry.node, options.includeSharing), parentId: entry.parentId };
+  }
+
+  /**
+   * Read and index the fixture files on first use
+   */
+  private getIndex(): Map<string, IndexedNode> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const index = new Map<string, IndexedNode>();
+    const addNode = (node: FixtureNode, parentId: string | null) => {
+      if (index.has(node.id)) {
+        throw new Error(`Duplicate fixture ID '${node.id}' in ${this.fixturesDir}`);
+      }
+      index.set(node.id, { node, parentId });
+      for (const child of node.children ?? []) {
+        addNode(child, node.id);
+      }
+    };
+
+    const fileNames = fs.readdirSync(this.fixturesDir).filter((name) => name.endsWith(".json"));
+    for (const fileName of fileNames.sort()) {
+      const root = JSON.parse(
+        fs.readFileSync(path.join(this.fixturesDir, fileName), "utf8")
+      ) as FixtureNode;
+      addNode(root, null);
+    }
+
+    this.index = index;
+    return index;
+  }
+}
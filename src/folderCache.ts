@@ -0,0 +1,176 @@
+import { createHash } from "crypto";
+import type { DriveFile } from "./fileTypes";
+import { scrapePublicFolder } from "./publicScrapeService";
+import type { PublicScrapeResult, ScrapeOptions } from "./publicScrapeService";
+import { getDriveListingProvider } from "./driveProviderFactory";
+import { folderCacheLookups } from "./metrics";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface CachedFolderListing {
+  result: PublicScrapeResult;
+  cachedAt: Date;
+  etag: string;
+}
+
+export interface FolderListing extends CachedFolderListing {
+  fromCache: boolean;
+}
+
+export interface FolderListingOptions {
+  /** Skip the cache lookup and store a fresh listing */
+  refresh?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+const CACHE_TTL_MS = Number(process.env.FOLDER_CACHE_TTL_MS ?? 5 * 60 * 1000);
+const CACHE_MAX_ENTRIES = Number(process.env.FOLDER_CACHE_MAX_ENTRIES) || 200;
+
+// ============================================================================
+// LRU CACHE
+// ============================================================================
+
+/**
+ * TTL + LRU cache of folder listings. A Map keeps insertion order, so
+ * re-inserting on every hit makes the first key the least recently used.
+ */
+export class FolderListingCache {
+  private readonly entries = new Map<string, CachedFolderListing>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries: number
+  ) {}
+
+  get enabled(): boolean {
+    return this.ttlMs > 0 && this.maxEntries > 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CachedFolderListing | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (Date.now() - entry.cachedAt.getTime() > this.ttlMs) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CachedFolderListing): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const folderListingCache = new FolderListingCache(
+  CACHE_TTL_MS,
+  CACHE_MAX_ENTRIES
+);
+
+// Concurrent requests for the same listing share one upstream call
+const inFlight = new Map<string, Promise<CachedFolderListing>>();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const buildCacheKey = (folderId: string, options: ScrapeOptions): string => {
+  const providerName = (options.provider ?? getDriveListingProvider()).name;
+  const depth = options.recursive ? `r${options.maxDepth ?? "default"}` : "flat";
+  // Never serve a listing fetched with a resource key to a request without it
+  const resourceKey = options.resourceKey ? `:rk=${options.resourceKey}` : "";
+  const sharing = options.includeSharing ? ":sharing" : "";
+  return `${providerName}:${folderId}:${depth}${resourceKey}${sharing}`;
+};
+
+export const computeListingEtag = (files: DriveFile[]): string =>
+  `"${createHash("sha1").update(JSON.stringify(files)).digest("base64url")}"`;
+
+/**
+ * True when an If-None-Match header matches the given ETag. Weak
+ * comparison, as RFC 9110 requires for If-None-Match.
+ */
+export const etagMatches = (
+  ifNoneMatch: string | undefined,
+  etag: string
+): boolean => {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  if (ifNoneMatch.trim() === "*") {
+    return true;
+  }
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => normalize(tag) === normalize(etag));
+};
+
+// ============================================================================
+// MAIN FUNCTION: getFolderListing
+// ============================================================================
+
+/**
+ * Cached wrapper around scrapePublicFolder, shared by every provider
+ */
+export async function getFolderListing(
+  folderId: string,
+  options: ScrapeOptions = {},
+  { refresh = false }: FolderListingOptions = {}
+): Promise<FolderListing> {
+  const key = buildCacheKey(folderId, options);
+
+  if (!refresh) {
+    const cached = folderListingCache.get(key);
+    if (cached) {
+      folderCacheLookups.inc({ result: "hit" });
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  let pending = inFlight.get(key);
+  folderCacheLookups.inc({ result: pending ? "coalesced" : "miss" });
+  if (!pending) {
+    pending = scrapePublicFolder(folderId, options).then((result) => {
+      const entry: CachedFolderListing = {
+        result,
+        cachedAt: new Date(),
+        etag: computeListingEtag(result.files),
+      };
+      folderListingCache.set(key, entry);
+      return entry;
+    });
+    inFlight.set(key, pending);
+    pending.then(
+      () => inFlight.delete(key),
+      () => inFlight.delete(key)
+    );
+  }
+
+  return { ...(await pending), fromCache: false };
+}
@@ -0,0 +1,56 @@
+import type { DriveFile, FolderDiff } from "./fileTypes";
+
+// Fields that indicate the file's content or location changed
+const MODIFICATION_FIELDS = [
+  "modifiedTime",
+  "md5Checksum",
+  "size",
+  "mimeType",
+  "path",
+  "parentId",
+] as const;
+
+/**
+ * Compare two listings of the same folder by file ID. A file whose name
+ * changed is reported as renamed; any other tracked field change is
+ * reported as modified (a file can be both).
+ */
+export const diffFolderFiles = (before: DriveFile[], after: DriveFile[]): FolderDiff => {
+  const previous = new Map(before.map((file) => [file.id, file]));
+  const current = new Map(after.map((file) => [file.id, file]));
+
+  const diff: FolderDiff = { added: [], removed: [], renamed: [], modified: [] };
+
+  for (const file of after) {
+    const old = previous.get(file.id);
+    if (!old) {
+      diff.added.push(file);
+      continue;
+    }
+
+    if (old.name !== file.name) {
+      diff.renamed.push({ file, previousName: old.name });
+    }
+
+    const changedFields = MODIFICATION_FIELDS.filter(
+      (field) => (old[field] ?? null) !== (file[field] ?? null)
+    );
+    if (changedFields.length > 0) {
+      diff.modified.push({ file, changedFields });
+    }
+  }
+
+  for (const file of before) {
+    if (!current.has(file.id)) {
+      diff.removed.push(file);
+    }
+  }
+
+  return diff;
+};
+
+export const isEmptyFolderDiff = (diff: FolderDiff): boolean =>
+  diff.added.length === 0 &&
+  diff.removed.length === 0 &&
+  diff.renamed.length === 0 &&
+  diff.modified.length === 0;
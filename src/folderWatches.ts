@@ -0,0 +1,218 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { DriveKind, FolderChangeWebhookPayload } from "./fileTypes";
+import { scrapePublicFolder } from "./publicScrapeService";
+import { scrapeErrorToResponse } from "./errorResponses";
+import { applyFileQuery } from "./fileFilters";
+import type { FileQuery } from "./fileFilters";
+import { diffFolderFiles, isEmptyFolderDiff } from "./folderDiff";
+import { deliverWebhook } from "./webhookDelivery";
+import { InMemoryWatchStore } from "./watchStore";
+import type { FolderWatch, WatchStore } from "./watchStore";
+import { logger } from "./logger";
+import { runWithRequestId } from "./requestContext";
+
+const log = logger.child({ module: "folderWatches" });
+
+export const MIN_WATCH_INTERVAL_SECONDS =
+  Number(process.env.WATCH_MIN_INTERVAL_SECONDS) || 60;
+export const MAX_WATCH_INTERVAL_SECONDS = 7 * 24 * 60 * 60; // 1 week
+/** Per API key */
+export const MAX_WATCHES = Number(process.env.MAX_WATCHES) || 100;
+/** Shared by all callers without an API key */
+export const MAX_ANONYMOUS_WATCHES = Number(process.env.MAX_ANONYMOUS_WATCHES) || 10;
+
+export const watchStore: WatchStore = new InMemoryWatchStore();
+
+// Timers can't be persisted, so they stay in this process
+const scheduledChecks = new Map<string, NodeJS.Timeout>();
+
+export class WatchLimitReachedError extends Error {
+  readonly code = "INVALID_REQUEST" as const;
+
+  constructor(anonymous: boolean) {
+    super(
+      anonymous
+        ? `At most ${MAX_ANONYMOUS_WATCHES} folder watches can be registered without an API key.`
+        : `At most ${MAX_WATCHES} folder watches can be registered per API key.`
+    );
+    this.name = "WatchLimitReachedError";
+  }
+}
+
+const scheduleCheck = (id: string, delayMs: number, store: WatchStore): void => {
+  clearTimeout(scheduledChecks.get(id));
+  const timer = setTimeout(() => {
+    scheduledChecks.delete(id);
+    // Each check gets its own ID rather than the one of the request that created the watch
+    runWithRequestId(`watch-${id}-${randomUUID()}`, () => void runWatchCheck(id, store));
+  }, delayMs);
+  // Pending checks shouldn't keep the process alive on shutdown
+  timer.unref();
+  scheduledChecks.set(id, timer);
+};
+
+/**
+ * List the folder, compare it with the last listing and notify the webhook
+ * of any changes. The first check only records the baseline. The baseline
+ * only moves forward once a change has been delivered, so a failed delivery
+ * is retried (with anything new merged in) on the next check.
+ */
+const checkFolderWatch = async (watch: FolderWatch, store: WatchStore): Promise<void> => {
+  const checkedAt = new Date();
+
+  let files;
+  let truncated;
+  try {
+    const result = await scrapePublicFolder(watch.folderId, {
+      recursive: watch.recursive,
+      maxDepth: watch.maxDepth,
+      resourceKey: watch.resourceKey,
+      driveKind: watch.driveKind,
+    });
+    files = applyFileQuery(result.files, watch.query);
+    truncated = result.truncated;
+  } catch (error: unknown) {
+    log.error("Watch check failed", { watchId: watch.id, error });
+    await store.update(watch.id, {
+      lastCheckedAt: checkedAt,
+      lastFailure: scrapeErrorToResponse(error),
+    });
+    return;
+  }
+
+  if (!watch.baseline) {
+    await store.update(watch.id, {
+      lastCheckedAt: checkedAt,
+      lastFailure: undefined,
+      baseline: files,
+    });
+    return;
+  }
+
+  const diff = diffFolderFiles(watch.baseline, files);
+  // A truncated listing is missing files, not evidence that they were deleted
+  if (truncated) {
+    diff.removed = [];
+  }
+
+  if (isEmptyFolderDiff(diff)) {
+    await store.update(watch.id, { lastCheckedAt: checkedAt, lastFailure: undefined });
+    return;
+  }
+
+  await store.update(watch.id, {
+    lastCheckedAt: checkedAt,
+    lastChangedAt: checkedAt,
+    lastFailure: undefined,
+  });
+
+  const payload: FolderChangeWebhookPayload = {
+    event: "folder.changed",
+    deliveryId: randomUUID(),
+    watchId: watch.id,
+    folderId: watch.folderId,
+    detectedAt: checkedAt.toISOString(),
+    diff,
+  };
+  const delivery = await deliverWebhook(
+    watch.webhookUrl,
+    watch.secret,
+    payload.deliveryId,
+    payload
+  );
+
+  if (delivery.state === "failed") {
+    log.error("Webhook delivery failed", {
+      watchId: watch.id,
+      attempts: delivery.attempts,
+      error: delivery.error,
+    });
+  }
+
+  await store.update(watch.id, {
+    lastDelivery: delivery,
+    ...(delivery.state === "delivered" ? { baseline: files } : {}),
+  });
+};
+
+const runWatchCheck = async (id: string, store: WatchStore): Promise<void> => {
+  const watch = await store.get(id);
+  if (!watch) {
+    return;
+  }
+
+  try {
+    await checkFolderWatch(watch, store);
+  } catch (error: unknown) {
+    log.error("Unexpected error in watch", { watchId: id, error });
+  }
+
+  // The watch may have been deleted while the check was running
+  const current = await store.get(id);
+  if (current) {
+    scheduleCheck(id, current.intervalMs, store);
+  }
+};
+
+/**
+ * Register a watch and take its baseline listing right away
+ */
+export const createFolderWatch = async (
+  input: {
+    folderId: string;
+    webhookUrl: string;
+    intervalSeconds: number;
+    recursive?: boolean;
+    maxDepth?: number;
+    resourceKey?: string;
+    driveKind?: DriveKind;
+    query?: FileQuery;
+    secret?: string;
+    apiKeyId?: string;
+  },
+  store: WatchStore = watchStore
+): Promise<FolderWatch> => {
+  const anonymous = input.apiKeyId === undefined;
+  const existing = (await store.list()).filter(
+    (watch) => watch.apiKeyId === input.apiKeyId
+  ).length;
+  if (existing >= (anonymous ? MAX_ANONYMOUS_WATCHES : MAX_WATCHES)) {
+    throw new WatchLimitReachedError(anonymous);
+  }
+
+  const now = new Date();
+  const watch: FolderWatch = {
+    id: randomUUID(),
+    folderId: input.folderId,
+    webhookUrl: input.webhookUrl,
+    secret: input.secret ?? randomBytes(32).toString("hex"),
+    intervalMs: input.intervalSeconds * 1000,
+    recursive: input.recursive ?? false,
+    maxDepth: input.maxDepth,
+    resourceKey: input.resourceKey,
+    driveKind: input.driveKind,
+    query: input.query,
+    apiKeyId: input.apiKeyId,
+    createdAt: now,
+    updatedAt: now,
+    lastCheckedAt: null,
+    lastChangedAt: null,
+    lastDelivery: null,
+  };
+
+  await store.create(watch);
+  scheduleCheck(watch.id, 0, store);
+  return watch;
+};
+
+/**
+ * Stop checking a watch and remove it. Returns false for unknown IDs.
+ */
+export const deleteFolderWatch = async (
+  id: string,
+  store: WatchStore = watchStore
+): Promise<boolean> => {
+  clearTimeout(scheduledChecks.get(id));
+  scheduledChecks.delete(id);
+  return store.delete(id);
+};
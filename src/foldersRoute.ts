@@ -0,0 +1,233 @@
+import { Router, Request, Response, NextFunction } from "express";
+import type { FolderDiffResponse } from "./fileTypes";
+import { buildErrorResponse, sendScrapeError } from "./errorResponses";
+import { getFolderListing } from "./folderCache";
+import { MAX_DEPTH_LIMIT } from "./publicScrapeService";
+import { getDriveKind } from "./driveLinks";
+import {
+  snapshotStore,
+  createSnapshotId,
+  toSnapshotSummary,
+} from "./snapshotStore";
+import type { FolderSnapshot } from "./snapshotStore";
+import { diffFolderFiles } from "./folderDiff";
+import { recordFilesListed } from "./apiKeyAuth";
+
+export const foldersRouter = Router();
+
+const FOLDER_ID_PATTERN = /^[A-Za-z0-9_-]{10,}$/;
+const RESOURCE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+interface SnapshotRequestBody {
+  recursive?: boolean;
+  maxDepth?: number;
+  /** Needed for folders shared by a link that includes a resource key */
+  resourceKey?: string;
+}
+
+interface SnapshotListingOptions {
+  recursive: boolean;
+  maxDepth?: number;
+  resourceKey?: string;
+}
+
+/**
+ * Same listing options /extract derives from a folder link
+ */
+const toScrapeOptions = (folderId: string, options: SnapshotListingOptions) => ({
+  ...options,
+  driveKind: getDriveKind(folderId),
+});
+
+type FolderParams = { id: string };
+
+const sendInvalidFolderId = (res: Response): Response => {
+  const errorBody = buildErrorResponse(
+    "INVALID_FOLDER_URL",
+    "The folder ID in the URL is not valid."
+  );
+  return res.status(400).json(errorBody);
+};
+
+const sendSnapshotNotFound = (res: Response, snapshotId: string): Response => {
+  const errorBody = buildErrorResponse(
+    "SNAPSHOT_NOT_FOUND",
+    `No snapshot '${snapshotId}' exists for this folder.`
+  );
+  return res.status(404).json(errorBody);
+};
+
+/**
+ * List the folder now and store the result as a new snapshot
+ */
+const takeSnapshot = async (
+  folderId: string,
+  options: SnapshotListingOptions
+): Promise<FolderSnapshot> => {
+  const listing = await getFolderListing(folderId, toScrapeOptions(folderId, options), {
+    refresh: true,
+  });
+  const snapshot: FolderSnapshot = {
+    id: createSnapshotId(listing.cachedAt),
+    folderId,
+    createdAt: listing.cachedAt.toISOString(),
+    source: listing.result.source,
+    recursive: options.recursive,
+    maxDepth: options.maxDepth,
+    ...(options.resourceKey ? { resourceKey: options.resourceKey } : {}),
+    files: listing.result.files,
+  };
+  await snapshotStore.save(snapshot);
+  return snapshot;
+};
+
+foldersRouter.post(
+  "/folders/:id/snapshots",
+  async (req: Request<FolderParams, unknown, SnapshotRequestBody>, res: Response) => {
+    const folderId = req.params.id;
+    if (!FOLDER_ID_PATTERN.test(folderId)) {
+      return sendInvalidFolderId(res);
+    }
+
+    const { recursive = false, maxDepth, resourceKey } = req.body ?? {};
+    if (typeof recursive !== "boolean") {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'recursive' must be a boolean."
+      );
+      return res.status(400).json(errorBody);
+    }
+    if (
+      maxDepth !== undefined &&
+      (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > MAX_DEPTH_LIMIT)
+    ) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        `'maxDepth' must be an integer between 0 and ${MAX_DEPTH_LIMIT}.`
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (
+      resourceKey !== undefined &&
+      (typeof resourceKey !== "string" || !RESOURCE_KEY_PATTERN.test(resourceKey))
+    ) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'resourceKey' is not valid."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    try {
+      const snapshot = await takeSnapshot(folderId, { recursive, maxDepth, resourceKey });
+      recordFilesListed(res, snapshot.files.length);
+      return res.status(201).json(toSnapshotSummary(snapshot));
+    } catch (error: unknown) {
+      return sendScrapeError(res, error);
+    }
+  }
+);
+
+foldersRouter.get(
+  "/folders/:id/snapshots",
+  async (req: Request<FolderParams>, res: Response, next: NextFunction) => {
+    const folderId = req.params.id;
+    if (!FOLDER_ID_PATTERN.test(folderId)) {
+      return sendInvalidFolderId(res);
+    }
+
+    try {
+      const snapshots = await snapshotStore.list(folderId);
+      return res.status(200).json({ folderId, snapshots });
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
+
+/**
+ * Diff a stored snapshot (`since`, default: the latest one) against another
+ * snapshot (`to`) or, by default, the live listing. With `save=true` the
+ * live listing is stored as a new snapshot so the next diff can start there.
+ */
+foldersRouter.get(
+  "/folders/:id/diff",
+  async (req: Request<FolderParams>, res: Response, next: NextFunction) => {
+    const folderId = req.params.id;
+    if (!FOLDER_ID_PATTERN.test(folderId)) {
+      return sendInvalidFolderId(res);
+    }
+
+    const sinceId = typeof req.query.since === "string" ? req.query.since : undefined;
+    const toId = typeof req.query.to === "string" ? req.query.to : undefined;
+    const save = req.query.save === "true";
+
+    let since: FolderSnapshot | undefined;
+    let to: FolderSnapshot | undefined;
+    try {
+      if (sinceId) {
+        since = await snapshotStore.get(folderId, sinceId);
+      } else {
+        since = await snapshotStore.latest(folderId);
+      }
+      to = toId ? await snapshotStore.get(folderId, toId) : undefined;
+    } catch (error: unknown) {
+      return next(error);
+    }
+
+    if (!since) {
+      if (sinceId) {
+        return sendSnapshotNotFound(res, sinceId);
+      }
+      const errorBody = buildErrorResponse(
+        "SNAPSHOT_NOT_FOUND",
+        "This folder has no snapshots yet. Create one with POST /api/folders/:id/snapshots."
+      );
+      return res.status(404).json(errorBody);
+    }
+
+    let target: { snapshotId: string | null; createdAt: string; files: FolderSnapshot["files"] };
+    if (toId) {
+      if (!to) {
+        return sendSnapshotNotFound(res, toId);
+      }
+      target = { snapshotId: to.id, createdAt: to.createdAt, files: to.files };
+    } else {
+      // List with the same options as the baseline so the comparison is like for like
+      const options: SnapshotListingOptions = {
+        recursive: since.recursive,
+        maxDepth: since.maxDepth,
+        resourceKey: since.resourceKey,
+      };
+      try {
+        if (save) {
+          const snapshot = await takeSnapshot(folderId, options);
+          target = { snapshotId: snapshot.id, createdAt: snapshot.createdAt, files: snapshot.files };
+        } else {
+          const listing = await getFolderListing(folderId, toScrapeOptions(folderId, options), {
+            refresh: true,
+          });
+          target = {
+            snapshotId: null,
+            createdAt: listing.cachedAt.toISOString(),
+            files: listing.result.files,
+          };
+        }
+      } catch (error: unknown) {
+        return sendScrapeError(res, error);
+      }
+    }
+
+    if (!toId) {
+      recordFilesListed(res, target.files.length);
+    }
+    const responseBody: FolderDiffResponse = {
+      folderId,
+      since: { snapshotId: since.id, createdAt: since.createdAt },
+      to: { snapshotId: target.snapshotId, createdAt: target.createdAt },
+      diff: diffFolderFiles(since.files, target.files),
+    };
+    return res.status(200).json(responseBody);
+  }
+);
@@ -0,0 +1,66 @@
+import path from "path";
+import fs from "fs";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "googleAuth" });
+
+export const KEY_FILE_PATH = path.join(process.cwd(), "rock-arc-474018-a7-e1573eb95e22.json");
+
+export const CLOUD_PLATFORM_SCOPE = "https://www.googleapis.com/auth/cloud-platform";
+export const DRIVE_READONLY_SCOPE = "https://www.googleapis.com/auth/drive.readonly";
+
+export interface AuthCredentials {
+  keyFile?: string;
+  credentials?: any;
+  scopes: string[];
+}
+
+/**
+ * Where getAuthCredentials would load credentials from, without loading them
+ */
+export const getCredentialsSource = (): "env" | "key-file" | "missing" => {
+  if (process.env.GOOGLE_SERVICE_ACCOUNT_KEY) {
+    return "env";
+  }
+  return fs.existsSync(KEY_FILE_PATH) ? "key-file" : "missing";
+};
+
+/**
+ * Get Google Auth credentials from file or environment variable
+ * For production (Render), use GOOGLE_SERVICE_ACCOUNT_KEY environment variable
+ * For local development, use the key file
+ */
+export function getAuthCredentials(
+  scopes: string[] = [CLOUD_PLATFORM_SCOPE]
+): AuthCredentials {
+  // Check if environment variable is set (for production on Render)
+  const serviceAccountKey = process.env.GOOGLE_SERVICE_ACCOUNT_KEY;
+  
+  if (serviceAccountKey) {
+    try {
+      const credentials = JSON.parse(serviceAccountKey);
+      return {
+        credentials,
+        scopes,
+      };
+    } catch (error) {
+      // The parse error can quote the key, so only log it at debug level
+      log.debug("Failed to parse GOOGLE_SERVICE_ACCOUNT_KEY", { error });
+      throw new Error("Invalid GOOGLE_SERVICE_ACCOUNT_KEY environment variable");
+    }
+  }
+  
+  // Fall back to key file (for local development only)
+  if (fs.existsSync(KEY_FILE_PATH)) {
+    return {
+      keyFile: KEY_FILE_PATH,
+      scopes,
+    };
+  }
+  
+  throw new Error(
+    "Google Service Account credentials not found. " +
+    "Either set GOOGLE_SERVICE_ACCOUNT_KEY environment variable or place key file at: " +
+    KEY_FILE_PATH
+  );
+}
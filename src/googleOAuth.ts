@@ -0,0 +1,139 @@
+import type { Request } from "express";
+import { google } from "googleapis";
+import type { Auth } from "googleapis";
+import { DRIVE_READONLY_SCOPE } from "./googleAuth";
+import { DriveApiProvider } from "./driveApiProvider";
+import type { DriveListingProvider } from "./driveListingProvider";
+import { oauthSessionStore } from "./oauthSessionStore";
+import type { OAuthSessionStore } from "./oauthSessionStore";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "googleOAuth" });
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+export const SESSION_COOKIE = "ds_session";
+export const STATE_COOKIE = "ds_oauth_state";
+export const OAUTH_SCOPES = [DRIVE_READONLY_SCOPE];
+
+export const SESSION_MAX_AGE_MS =
+  Number(process.env.OAUTH_SESSION_MAX_AGE_MS) || 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export class OAuthNotConfiguredError extends Error {
+  readonly code = "OAUTH_NOT_CONFIGURED" as const;
+
+  constructor() {
+    super(
+      "Google sign-in is not configured. Set GOOGLE_OAUTH_CLIENT_ID, GOOGLE_OAUTH_CLIENT_SECRET and GOOGLE_OAUTH_REDIRECT_URI."
+    );
+    this.name = "OAuthNotConfiguredError";
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const isOAuthConfigured = (): boolean =>
+  Boolean(
+    process.env.GOOGLE_OAUTH_CLIENT_ID &&
+      process.env.GOOGLE_OAUTH_CLIENT_SECRET &&
+      process.env.GOOGLE_OAUTH_REDIRECT_URI
+  );
+
+export const createOAuthClient = (): Auth.OAuth2Client => {
+  if (!isOAuthConfigured()) {
+    throw new OAuthNotConfiguredError();
+  }
+  return new google.auth.OAuth2(
+    process.env.GOOGLE_OAUTH_CLIENT_ID,
+    process.env.GOOGLE_OAUTH_CLIENT_SECRET,
+    process.env.GOOGLE_OAUTH_REDIRECT_URI
+  );
+};
+
+/**
+ * Minimal Cookie header parser; we only read our own cookies
+ */
+export const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index <= 0) {
+      continue;
+    }
+    const name = part.slice(0, index).trim();
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      // ignore cookies that aren't valid URI-encoded values
+    }
+  }
+  return cookies;
+};
+
+export const getSessionId = (req: Pick<Request, "headers">): string | undefined =>
+  parseCookies(req.headers.cookie)[SESSION_COOKIE];
+
+// ============================================================================
+// SIGNED-IN USER ACCESS
+// ============================================================================
+
+/**
+ * OAuth client holding the signed-in user's tokens, or undefined when the
+ * request has no valid session. Refreshed tokens are written back to the store.
+ */
+export const getUserOAuthClient = async (
+  req: Pick<Request, "headers">,
+  store: OAuthSessionStore = oauthSessionStore
+): Promise<Auth.OAuth2Client | undefined> => {
+  const sessionId = getSessionId(req);
+  if (!sessionId || !isOAuthConfigured()) {
+    return undefined;
+  }
+
+  let session;
+  try {
+    session = await store.get(sessionId);
+  } catch (error: unknown) {
+    // e.g. TOKEN_ENCRYPTION_KEY was rotated; the user has to sign in again
+    log.warn("Could not read session", { error });
+    return undefined;
+  }
+  if (!session) {
+    return undefined;
+  }
+  // The cookie's maxAge is only a hint to the browser; enforce it here too.
+  // An unreadable createdAt counts as expired.
+  const expiresAt = Date.parse(session.createdAt) + SESSION_MAX_AGE_MS;
+  if (!(expiresAt > Date.now())) {
+    await store.delete(sessionId).catch((error: unknown) => {
+      log.warn("Could not delete expired session", { error });
+    });
+    return undefined;
+  }
+
+  const client = createOAuthClient();
+  client.setCredentials(session.tokens);
+  client.on("tokens", (tokens) => {
+    // Google only sends the refresh token once, so keep the stored one
+    session.tokens = { ...session.tokens, ...tokens };
+    session.updatedAt = new Date().toISOString();
+    store.save(session).catch((error: unknown) => {
+      log.error("Failed to persist refreshed tokens", { error });
+    });
+  });
+  return client;
+};
+
+/**
+ * Drive API provider acting as the signed-in user, if there is one
+ */
+export const getUserDriveProvider = async (
+  req: Pick<Request, "headers">
+): Promise<DriveListingProvider | undefined> => {
+  const client = await getUserOAuthClient(req);
+  return client ? new DriveApiProvider(client) : undefined;
+};
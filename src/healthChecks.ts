@@ -0,0 +1,236 @@
+import { google } from "googleapis";
+import type {
+  DiagnosticsResponse,
+  HealthCheckResult,
+  ReadinessResponse,
+} from "./fileTypes";
+import { env } from "./env";
+import {
+  getAuthCredentials,
+  getCredentialsSource,
+  CLOUD_PLATFORM_SCOPE,
+  DRIVE_READONLY_SCOPE,
+} from "./googleAuth";
+import { getDriveListingProvider } from "./driveProviderFactory";
+import { isOAuthConfigured } from "./googleOAuth";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "healthChecks" });
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+// Load balancers poll readiness every few seconds; don't mint a token each time
+const READINESS_CACHE_MS = Number(process.env.READINESS_CACHE_MS) || 10000;
+const CHECK_TIMEOUT_MS = Number(process.env.READINESS_CHECK_TIMEOUT_MS) || 5000;
+
+let shuttingDown = false;
+let lastReport: ReadinessResponse | null = null;
+let lastReportAt = 0;
+let pendingReport: Promise<ReadinessResponse> | null = null;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Drive API access with an API key, an unauthenticated Web App and
+ * fixtures need no service account
+ */
+const usesServiceAccount = (): boolean => {
+  switch (env.driveProvider) {
+    case "apps-script":
+      return process.env.APPS_SCRIPT_AUTH !== "none";
+    case "drive-api":
+      return !process.env.GOOGLE_API_KEY;
+    case "fixtures":
+      return false;
+  }
+};
+
+const serviceAccountScopes = (): string[] =>
+  env.driveProvider === "drive-api" ? [DRIVE_READONLY_SCOPE] : [CLOUD_PLATFORM_SCOPE];
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error: unknown) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Run one check, turning a thrown error into a failed result. A check
+ * resolves with a message when it passed but has something to report.
+ */
+const runCheck = async (
+  name: HealthCheckResult["name"],
+  check: () => Promise<string | void>
+): Promise<HealthCheckResult> => {
+  const startedAt = Date.now();
+  try {
+    const message = await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return {
+      name,
+      status: "ok",
+      durationMs: Date.now() - startedAt,
+      ...(message ? { message } : {}),
+    };
+  } catch (error: unknown) {
+    return {
+      name,
+      status: "failed",
+      durationMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+const skippedCheck = (name: HealthCheckResult["name"], message: string): HealthCheckResult => ({
+  name,
+  status: "skipped",
+  durationMs: 0,
+  message,
+});
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+const checkCredentials = (): Promise<HealthCheckResult> =>
+  runCheck("credentials", async () => {
+    getAuthCredentials(serviceAccountScopes());
+  });
+
+const checkToken = (): Promise<HealthCheckResult> =>
+  runCheck("token", async () => {
+    const auth = new google.auth.GoogleAuth(getAuthCredentials(serviceAccountScopes()));
+    const token = await auth.getAccessToken();
+    if (!token) {
+      throw new Error("Google returned no access token");
+    }
+  });
+
+/**
+ * Creating the provider validates its configuration; listing one item of
+ * HEALTHCHECK_FOLDER_ID (a small public folder) proves it actually answers
+ */
+const checkProvider = (): Promise<HealthCheckResult> =>
+  runCheck("provider", async () => {
+    const provider = getDriveListingProvider();
+    const folderId = process.env.HEALTHCHECK_FOLDER_ID;
+    if (!folderId) {
+      return `The ${provider.name} provider is configured. Set HEALTHCHECK_FOLDER_ID to probe it.`;
+    }
+    await provider.listFolderPage(folderId, { pageSize: 1 });
+  });
+
+const runReadinessChecks = async (): Promise<ReadinessResponse> => {
+  const checks: HealthCheckResult[] = [];
+
+  if (usesServiceAccount()) {
+    const credentials = await checkCredentials();
+    checks.push(credentials);
+    // Without parseable credentials there is no point asking for a token
+    checks.push(
+      credentials.status === "ok"
+        ? await checkToken()
+        : skippedCheck("token", "Skipped because credentials could not be loaded.")
+    );
+  } else {
+    const reason = `Not needed by the ${env.driveProvider} provider as configured.`;
+    checks.push(skippedCheck("credentials", reason), skippedCheck("token", reason));
+  }
+
+  checks.push(await checkProvider());
+
+  const report: ReadinessResponse = {
+    ready: checks.every((check) => check.status !== "failed"),
+    shuttingDown,
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+  if (!report.ready) {
+    log.warn("Readiness checks failed", {
+      failed: checks.filter((check) => check.status === "failed").map((check) => check.name),
+    });
+  }
+  return report;
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Stop reporting ready so the load balancer drains traffic before exit
+ */
+export const markShuttingDown = (): void => {
+  shuttingDown = true;
+};
+
+/**
+ * Readiness report, reusing the last one for READINESS_CACHE_MS. Concurrent
+ * callers share a single run of the checks.
+ */
+export const checkReadiness = async ({ refresh = false } = {}): Promise<ReadinessResponse> => {
+  if (!refresh && lastReport && Date.now() - lastReportAt < READINESS_CACHE_MS) {
+    return { ...lastReport, ready: lastReport.ready && !shuttingDown, shuttingDown };
+  }
+
+  if (!pendingReport) {
+    pendingReport = runReadinessChecks().then(
+      (report) => {
+        lastReport = report;
+        lastReportAt = Date.now();
+        pendingReport = null;
+        return report;
+      },
+      (error: unknown) => {
+        pendingReport = null;
+        throw error;
+      }
+    );
+  }
+
+  const report = await pendingReport;
+  return { ...report, ready: report.ready && !shuttingDown, shuttingDown };
+};
+
+/**
+ * Configuration overview for operators. Only reports whether settings are
+ * present, never their values.
+ */
+export const getDiagnostics = async (): Promise<DiagnosticsResponse> => {
+  const isSet = (name: string) => Boolean(process.env[name]);
+
+  return {
+    provider: env.driveProvider,
+    nodeEnv: env.nodeEnv ?? null,
+    nodeVersion: process.version,
+    uptimeSeconds: Math.round(process.uptime()),
+    credentialsSource: getCredentialsSource(),
+    config: {
+      appsScriptWebAppUrl: isSet("APPS_SCRIPT_WEB_APP_URL"),
+      appsScriptSecret: isSet("APPS_SCRIPT_SECRET"),
+      appsScriptUnauthenticated: process.env.APPS_SCRIPT_AUTH === "none",
+      googleApiKey: isSet("GOOGLE_API_KEY"),
+      healthcheckFolderId: isSet("HEALTHCHECK_FOLDER_ID"),
+      googleOAuth: isOAuthConfigured(),
+      tokenEncryptionKey: isSet("TOKEN_ENCRYPTION_KEY"),
+      requireApiKey: process.env.REQUIRE_API_KEY === "true",
+      adminApiToken: isSet("ADMIN_API_TOKEN"),
+      metricsToken: isSet("METRICS_TOKEN"),
+      frontendUrl: isSet("FRONTEND_URL"),
+    },
+    readiness: await checkReadiness(),
+  };
+};
@@ -0,0 +1,23 @@
+import { Router, Request, Response } from "express";
+import { checkReadiness } from "./healthChecks";
+
+export const healthRouter = Router();
+
+/**
+ * Liveness: the process is up and serving requests. Deliberately checks
+ * nothing else, so a Google outage never gets healthy instances restarted.
+ */
+healthRouter.get("/healthz", (_req: Request, res: Response) => {
+  res.setHeader("Cache-Control", "no-store");
+  return res.json({ status: "ok", uptimeSeconds: Math.round(process.uptime()) });
+});
+
+/**
+ * Readiness: credentials load, a token can be minted and the provider
+ * answers. 503 while any check fails or the process is shutting down.
+ */
+healthRouter.get("/readyz", async (_req: Request, res: Response) => {
+  const report = await checkReadiness();
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(report.ready ? 200 : 503).json(report);
+});
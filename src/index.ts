@@ -1,62 +1,43 @@
-import express, { Request, Response, NextFunction } from "express";
-import cors from "cors";
-import { json } from "express";
-import rateLimit from "express-rate-limit";
-import { extractRouter } from "./extractRoute";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-const app = express();
-
-// Disable X-Powered-By header for security
-app.disable("x-powered-by");
-
-// CORS configuration - restrict to allowed origins
-const allowedOrigins = [
-  "https://drive-scraper.vercel.app",
-  process.env.FRONTEND_URL,
-].filter(Boolean) as string[];
-
-app.use(
-  cors({
-    origin: allowedOrigins.length > 0 ? allowedOrigins : true,
-    credentials: true,
-  })
-);
-
-app.use(json());
-
-// Rate limiting for /api/extract endpoint
-const extractLimiter = rateLimit({
-  windowMs: 60000, // 1 minute
-  max: 30, // 30 requests per minute
-  message: {
-    error: {
-      code: "RATE_LIMIT_EXCEEDED",
-      message: "Too many requests, please try again later.",
-    },
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
+// env loads .env, so it must be imported before anything reads process.env
+import { env } from "./env";
+import { createApp } from "./app";
+import { markShuttingDown } from "./healthChecks";
+import { logger } from "./logger";
 
-app.use("/api/extract", extractLimiter);
-app.use("/api", extractRouter);
-
-// Global error handler - sanitized output for production
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("[INTERNAL ERROR]", err);
-  res.status(500).json({
-    error: {
-      code: "INTERNAL_ERROR",
-      message: "Unexpected error occurred while processing request.",
-    },
-  });
-});
+const app = createApp(env);
 
-const PORT = process.env.PORT || 4000;
+const PORT = env.port;
 
-app.listen(PORT, () => {
-  console.log(`Backend listening on port ${PORT}`);
+// How long /readyz fails before we stop accepting connections, so the load
+// balancer has time to take this instance out of rotation
+const SHUTDOWN_DELAY_MS =
+  Number(process.env.SHUTDOWN_DELAY_MS) || (process.env.NODE_ENV === "production" ? 5000 : 0);
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 30000;
+
+const server = app.listen(PORT, () => {
+  logger.info("Backend listening", { port: PORT });
 });
+
+let shutdownStarted = false;
+
+const shutdown = (signal: NodeJS.Signals) => {
+  if (shutdownStarted) {
+    return;
+  }
+  shutdownStarted = true;
+  logger.info("Shutting down", { signal, delayMs: SHUTDOWN_DELAY_MS });
+  markShuttingDown();
+
+  setTimeout(() => {
+    // In-flight requests finish; idle keep-alive connections are closed now
+    server.close(() => process.exit(0));
+    server.closeIdleConnections();
+    setTimeout(() => {
+      logger.warn("Shutdown timed out; exiting with requests still open");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+  }, SHUTDOWN_DELAY_MS);
+};
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
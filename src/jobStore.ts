@@ -0,0 +1,93 @@
+import type {
+  DriveKind,
+  ExtractFilesResponse,
+  JobProgress,
+  JobState,
+} from "./fileTypes";
+import type { MappedErrorResponse } from "./errorResponses";
+import type { FileQuery } from "./fileFilters";
+import type { ExportFormatPreferences } from "./workspaceExports";
+
+export interface ExtractionJob {
+  id: string;
+  folderId: string;
+  recursive?: boolean;
+  maxDepth?: number;
+  resourceKey?: string;
+  driveKind?: DriveKind;
+  includeSharing?: boolean;
+  query?: FileQuery;
+  exportFormats?: ExportFormatPreferences;
+  /** API key that started the job; its files count against that key's quota */
+  apiKeyId?: string;
+  state: JobState;
+  progress: JobProgress;
+  createdAt: Date;
+  updatedAt: Date;
+  result?: ExtractFilesResponse;
+  failure?: MappedErrorResponse;
+}
+
+export type ExtractionJobUpdate = Partial<Omit<ExtractionJob, "id" | "createdAt">>;
+
+/**
+ * Persistence for extraction jobs. Async so a database-backed store can be
+ * swapped in without touching the routes.
+ */
+export interface JobStore {
+  create(job: ExtractionJob): Promise<void>;
+  get(id: string): Promise<ExtractionJob | undefined>;
+  update(id: string, update: ExtractionJobUpdate): Promise<ExtractionJob | undefined>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const isFinishedJobState = (state: JobState): boolean =>
+  state === "succeeded" || state === "failed" || state === "cancelled";
+
+const DEFAULT_FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Process-local job store. Finished jobs are dropped after `finishedJobTtlMs`
+ * so results don't accumulate forever.
+ */
+export class InMemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, ExtractionJob>();
+
+  constructor(private readonly finishedJobTtlMs = DEFAULT_FINISHED_JOB_TTL_MS) {}
+
+  async create(job: ExtractionJob): Promise<void> {
+    this.evictExpired();
+    this.jobs.set(job.id, job);
+  }
+
+  async get(id: string): Promise<ExtractionJob | undefined> {
+    this.evictExpired();
+    return this.jobs.get(id);
+  }
+
+  async update(
+    id: string,
+    update: ExtractionJobUpdate
+  ): Promise<ExtractionJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    const updated: ExtractionJob = { ...job, ...update, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.finishedJobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if (isFinishedJobState(job.state) && job.updatedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { buildErrorResponse } from "./errorResponses";
+import { parseExtractRequest } from "./extractRequest";
+import type { ExtractRequestBody } from "./extractRequest";
+import {
+  jobStore,
+  startExtractionJob,
+  cancelExtractionJob,
+  toJobStatusResponse,
+} from "./extractionJobs";
+import { isFinishedJobState } from "./jobStore";
+import type { ExtractionJob } from "./jobStore";
+import { getRequestApiKey } from "./apiKeyAuth";
+
+export const jobsRouter = Router();
+
+const sendJobNotFound = (res: Response, id: string): Response => {
+  const errorBody = buildErrorResponse(
+    "JOB_NOT_FOUND",
+    `No extraction job found with ID '${id}'.`
+  );
+  return res.status(404).json(errorBody);
+};
+
+/**
+ * Jobs belong to the API key that started them. Anonymous jobs can only be
+ * reached by their (unguessable) ID.
+ */
+const isOwnJob = (job: ExtractionJob, res: Response): boolean =>
+  job.apiKeyId === getRequestApiKey(res)?.id;
+
+jobsRouter.post(
+  "/jobs",
+  async (
+    req: Request<unknown, unknown, ExtractRequestBody>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const parsed = parseExtractRequest(req.body);
+
+    if (parsed.kind === "error") {
+      return res.status(parsed.status).json(parsed.body);
+    }
+
+    if (parsed.kind === "file") {
+      const errorBody = buildErrorResponse(
+        "INVALID_FOLDER_URL",
+        "Extraction jobs require a folder URL. Use /api/extract for single file links."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (parsed.pageToken !== undefined || parsed.pageSize !== undefined) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        "'pageToken' and 'pageSize' are not supported for extraction jobs."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    try {
+      const job = await startExtractionJob(parsed.folderId, {
+        ...parsed.options,
+        query: parsed.query,
+        exportFormats: parsed.exportFormats,
+        apiKeyId: getRequestApiKey(res)?.id,
+      });
+
+      res.setHeader("Location", `${req.baseUrl}/jobs/${job.id}`);
+      return res.status(202).json(toJobStatusResponse(job));
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
+
+jobsRouter.get(
+  "/jobs/:id",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const job = await jobStore.get(req.params.id);
+      // Someone else's job is reported as missing rather than forbidden
+      if (!job || !isOwnJob(job, res)) {
+        return sendJobNotFound(res, req.params.id);
+      }
+      return res.status(200).json(toJobStatusResponse(job));
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
+
+jobsRouter.get(
+  "/jobs/:id/result",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    let job: ExtractionJob | undefined;
+    try {
+      job = await jobStore.get(req.params.id);
+    } catch (error: unknown) {
+      return next(error);
+    }
+    if (!job || !isOwnJob(job, res)) {
+      return sendJobNotFound(res, req.params.id);
+    }
+
+    switch (job.state) {
+      case "succeeded":
+        return res.status(200).json(job.result);
+      case "failed": {
+        const { status, body } = job.failure ?? {
+          status: 500,
+          body: buildErrorResponse(
+            "INTERNAL_ERROR",
+            "Unexpected error while scraping the folder."
+          ),
+        };
+        return res.status(status).json(body);
+      }
+      case "cancelled": {
+        const errorBody = buildErrorResponse(
+          "JOB_CANCELLED",
+          "This extraction job was cancelled before it finished."
+        );
+        return res.status(409).json(errorBody);
+      }
+      default: {
+        const errorBody = buildErrorResponse(
+          "JOB_NOT_FINISHED",
+          "This extraction job has not finished yet.",
+          { state: job.state, progress: job.progress }
+        );
+        return res.status(409).json(errorBody);
+      }
+    }
+  }
+);
+
+/**
+ * Cancel a queued/running job. Deleting a job that has already finished
+ * removes it (and its result) from the store.
+ */
+jobsRouter.delete(
+  "/jobs/:id",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const job = await jobStore.get(req.params.id);
+      if (!job || !isOwnJob(job, res)) {
+        return sendJobNotFound(res, req.params.id);
+      }
+
+      if (isFinishedJobState(job.state)) {
+        await jobStore.delete(job.id);
+        return res.status(204).end();
+      }
+
+      const cancelled = await cancelExtractionJob(job.id);
+      if (!cancelled) {
+        return sendJobNotFound(res, req.params.id);
+      }
+      return res.status(200).json(toJobStatusResponse(cancelled));
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
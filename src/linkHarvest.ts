@@ -0,0 +1,161 @@
+import * as XLSX from "xlsx";
+import type {
+  HarvestedDocumentLink,
+  HarvestedLink,
+  LinkHarvestResponse,
+} from "./fileTypes";
+import { parseDriveLink } from "./driveLinks";
+
+// ============================================================================
+// INTERFACES & CUSTOM ERRORS
+// ============================================================================
+
+export type LinkHarvestResult = Omit<LinkHarvestResponse, "jobs">;
+
+export class InvalidHarvestInputError extends Error {
+  public readonly code: "INVALID_REQUEST" = "INVALID_REQUEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidHarvestInputError";
+  }
+}
+
+// ============================================================================
+// URL SCANNING
+// ============================================================================
+
+// Stops at whitespace, quotes and brackets, which end URLs in prose, HTML
+// attributes and Markdown
+const DRIVE_URL_PATTERN =
+  /https?:\/\/(?:drive\.google\.com|docs\.google\.com|drive\.usercontent\.google\.com)\/[^\s"'<>()[\]{}\\]*/gi;
+
+// Sentence punctuation that follows a URL more often than it ends one
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  quot: '"',
+  apos: "'",
+  lt: "<",
+  gt: ">",
+  nbsp: " ",
+};
+
+/**
+ * Decode the entities that show up in href attributes, so `&amp;` between
+ * query parameters doesn't hide the `id` or `resourcekey`
+ */
+export const decodeHtmlEntities = (html: string): string =>
+  html.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const codePoint =
+        name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Every Google Drive/Docs URL in `text`, in order of appearance
+ */
+export const findDriveUrls = (text: string): string[] =>
+  (text.match(DRIVE_URL_PATTERN) ?? []).map((url) => url.replace(TRAILING_PUNCTUATION, ""));
+
+/**
+ * Cell text and hyperlink targets from every sheet of an XLSX, XLS or CSV
+ * file. Links often hide behind a label, so the targets matter as much as
+ * the values.
+ */
+export const readSpreadsheetText = (data: Buffer): string[] => {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: "buffer", cellFormula: false, cellHTML: false });
+  } catch {
+    throw new InvalidHarvestInputError("The uploaded file could not be read as XLSX or CSV.");
+  }
+
+  const texts: string[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    for (const [address, cell] of Object.entries(sheet)) {
+      if (address.startsWith("!")) {
+        continue;
+      }
+      const { v, l } = cell as XLSX.CellObject;
+      if (typeof v === "string") {
+        texts.push(v);
+      }
+      if (l?.Target) {
+        texts.push(l.Target);
+      }
+    }
+  }
+  return texts;
+};
+
+// ============================================================================
+// MAIN FUNCTION: harvestDriveLinks
+// ============================================================================
+
+/**
+ * Find and classify every Drive link in the given texts. Links are
+ * deduplicated by ID (the first URL seen is kept) and invalid ones by URL.
+ */
+export const harvestDriveLinks = (texts: string[]): LinkHarvestResult => {
+  const result: LinkHarvestResult = { folders: [], files: [], documents: [], invalid: [] };
+  const byId = new Map<string, HarvestedLink>();
+  const invalidUrls = new Set<string>();
+
+  for (const text of texts) {
+    for (const url of findDriveUrls(text)) {
+      const link = parseDriveLink(url);
+
+      if (link.kind === "invalid") {
+        if (!invalidUrls.has(url)) {
+          invalidUrls.add(url);
+          result.invalid.push({ url, reason: link.reason, message: link.message });
+        }
+        continue;
+      }
+
+      const seen = byId.get(link.id);
+      if (seen) {
+        seen.occurrences += 1;
+        continue;
+      }
+
+      const base: HarvestedLink = {
+        id: link.id,
+        url,
+        ...(link.resourceKey ? { resourceKey: link.resourceKey } : {}),
+        occurrences: 1,
+      };
+      switch (link.kind) {
+        case "folder":
+        case "shared-drive": {
+          const folder = { ...base, driveKind: link.kind };
+          result.folders.push(folder);
+          byId.set(link.id, folder);
+          break;
+        }
+        case "file":
+          result.files.push(base);
+          byId.set(link.id, base);
+          break;
+        case "document": {
+          const document: HarvestedDocumentLink = {
+            ...base,
+            documentType: link.documentType,
+            mimeType: link.mimeType,
+          };
+          result.documents.push(document);
+          byId.set(link.id, document);
+          break;
+        }
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,144 @@
+import { Router, Request, Response, NextFunction, raw, text } from "express";
+import type { LinkHarvestResponse } from "./fileTypes";
+import { buildErrorResponse } from "./errorResponses";
+import { parseExtractRequest } from "./extractRequest";
+import type { ParsedExtractRequest } from "./extractRequest";
+import { startExtractionJob, toJobStatusResponse } from "./extractionJobs";
+import { chargeExtractions, getRequestApiKey } from "./apiKeyAuth";
+import {
+  harvestDriveLinks,
+  decodeHtmlEntities,
+  readSpreadsheetText,
+  InvalidHarvestInputError,
+} from "./linkHarvest";
+
+export const linksRouter = Router();
+
+const MAX_UPLOAD_SIZE = process.env.HARVEST_MAX_UPLOAD_SIZE || "10mb";
+const MAX_EXTRACT_FOLDERS = 100;
+
+const SPREADSHEET_CONTENT_TYPES = [
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-excel",
+  "application/octet-stream",
+];
+
+interface LinkHarvestRequestBody {
+  text?: unknown;
+  html?: unknown;
+  /** Start an extraction job for every folder found */
+  extract?: unknown;
+  /** Passed on to the extraction jobs */
+  recursive?: unknown;
+  maxDepth?: unknown;
+}
+
+/**
+ * Options for uploads, which have no JSON body, come from the query string
+ */
+const readQueryOptions = (query: Request["query"]): LinkHarvestRequestBody => ({
+  extract: query.extract === undefined ? undefined : query.extract === "true",
+  recursive: query.recursive === undefined ? undefined : query.recursive === "true",
+  maxDepth: query.maxDepth === undefined ? undefined : Number(query.maxDepth),
+});
+
+/**
+ * Find Google Drive/Docs links in pasted text or HTML (JSON `text` / `html`,
+ * or a text/plain or text/html body) or in an uploaded XLSX/CSV file (sent
+ * as the raw request body). With `extract: true` (`?extract=true` for
+ * uploads) an extraction job is started for every folder found.
+ */
+linksRouter.post(
+  "/links/harvest",
+  raw({ type: SPREADSHEET_CONTENT_TYPES, limit: MAX_UPLOAD_SIZE }),
+  text({ type: ["text/plain", "text/html"], limit: MAX_UPLOAD_SIZE }),
+  async (req: Request<unknown, unknown, unknown>, res: Response, next: NextFunction) => {
+    let texts: string[];
+    let options: LinkHarvestRequestBody;
+
+    try {
+      if (Buffer.isBuffer(req.body)) {
+        texts = readSpreadsheetText(req.body);
+        options = readQueryOptions(req.query);
+      } else if (typeof req.body === "string") {
+        texts = [req.is("text/html") ? decodeHtmlEntities(req.body) : req.body];
+        options = readQueryOptions(req.query);
+      } else {
+        const body = (req.body ?? {}) as LinkHarvestRequestBody;
+        if (
+          (body.text !== undefined && typeof body.text !== "string") ||
+          (body.html !== undefined && typeof body.html !== "string") ||
+          (body.text === undefined && body.html === undefined)
+        ) {
+          throw new InvalidHarvestInputError(
+            "Request body must include a 'text' or 'html' string, or be an uploaded XLSX or CSV file."
+          );
+        }
+        texts = [
+          ...(typeof body.text === "string" ? [body.text] : []),
+          ...(typeof body.html === "string" ? [decodeHtmlEntities(body.html)] : []),
+        ];
+        options = body;
+      }
+    } catch (error: unknown) {
+      if (error instanceof InvalidHarvestInputError) {
+        const errorBody = buildErrorResponse(error.code, error.message);
+        return res.status(400).json(errorBody);
+      }
+      return next(error);
+    }
+
+    if (options.extract !== undefined && typeof options.extract !== "boolean") {
+      const errorBody = buildErrorResponse("INVALID_REQUEST", "'extract' must be a boolean.");
+      return res.status(400).json(errorBody);
+    }
+
+    const responseBody: LinkHarvestResponse = harvestDriveLinks(texts);
+    if (!options.extract) {
+      return res.status(200).json(responseBody);
+    }
+
+    if (responseBody.folders.length > MAX_EXTRACT_FOLDERS) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        `Found ${responseBody.folders.length} folders; at most ${MAX_EXTRACT_FOLDERS} can be extracted per request.`
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    // Validate every folder before starting any job
+    const requests: Extract<ParsedExtractRequest, { kind: "folder" }>[] = [];
+    for (const folder of responseBody.folders) {
+      const parsed = parseExtractRequest({
+        folderUrl: folder.url,
+        recursive: options.recursive as boolean | undefined,
+        maxDepth: options.maxDepth as number | undefined,
+      });
+      if (parsed.kind === "error") {
+        return res.status(parsed.status).json(parsed.body);
+      }
+      if (parsed.kind === "folder") {
+        requests.push(parsed);
+      }
+    }
+
+    if (!chargeExtractions(res, requests.length)) {
+      return;
+    }
+
+    const apiKeyId = getRequestApiKey(res)?.id;
+    try {
+      const jobs = await Promise.all(
+        requests.map((parsed) =>
+          startExtractionJob(parsed.folderId, { ...parsed.options, apiKeyId })
+        )
+      );
+
+      responseBody.jobs = jobs.map(toJobStatusResponse);
+      return res.status(jobs.length > 0 ? 202 : 200).json(responseBody);
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,98 @@
+import { getRequestId } from "./requestContext";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const parseLogLevel = (value: string | undefined): LogLevel => {
+  if (!value) {
+    // Debug output used to be dev-only console.log calls; keep it that way by default
+    return process.env.NODE_ENV === "production" ? "info" : "debug";
+  }
+  // Own keys only: "constructor" would compare as NaN and silence every level
+  return Object.prototype.hasOwnProperty.call(LEVEL_ORDER, value) ? (value as LogLevel) : "info";
+};
+
+const LOG_LEVEL = parseLogLevel(process.env.LOG_LEVEL?.toLowerCase());
+
+/**
+ * Errors don't survive JSON.stringify, so flatten them to plain objects
+ */
+const serializeValue = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(LOG_LEVEL === "debug" && value.stack ? { stack: value.stack } : {}),
+    };
+  }
+  return value;
+};
+
+/**
+ * Writes one JSON object per line: `time`, `level`, `msg`, the current
+ * request ID (when inside a request) and any bound or per-call fields.
+ * Warnings and errors go to stderr, everything else to stdout.
+ */
+export class Logger {
+  constructor(
+    private readonly bindings: LogFields = {},
+    private readonly minLevel: LogLevel = LOG_LEVEL
+  ) {}
+
+  /**
+   * Logger that adds `bindings` to every entry, e.g. `{ module: "driveApi" }`
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.minLevel);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.minLevel];
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      requestId: getRequestId(),
+      ...this.bindings,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serializeValue(value);
+    }
+
+    const stream = LEVEL_ORDER[level] >= LEVEL_ORDER.warn ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,167 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ExtractErrorCode } from "./fileTypes";
+import { logger } from "./logger";
+
+// ============================================================================
+// METRIC TYPES
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+// Label sets are keyed by their sorted entries so {a,b} and {b,a} match
+const labelsKey = (labels: Labels): string =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelsKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Cumulative counts, one per bucket */
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelsKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.bucketCounts[index] += 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, bucketCounts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${bucketCounts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+export const httpRequestDuration = new Histogram(
+  "drive_scraper_http_request_duration_seconds",
+  "HTTP request latency by route and status.",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+);
+
+export const scrapeErrors = new Counter(
+  "drive_scraper_scrape_errors_total",
+  "Errors from listing folders or looking up files, by error code."
+);
+
+export const folderCacheLookups = new Counter(
+  "drive_scraper_folder_cache_lookups_total",
+  "Folder listing cache lookups by result (hit, miss, coalesced)."
+);
+
+export const filesPerRequest = new Histogram(
+  "drive_scraper_files_per_request",
+  "Number of files returned per listing request.",
+  [0, 1, 10, 50, 100, 500, 1000, 5000, 10000, 50000]
+);
+
+const registry: Metric[] = [httpRequestDuration, scrapeErrors, folderCacheLookups, filesPerRequest];
+
+export const recordScrapeError = (code: ExtractErrorCode): void => {
+  scrapeErrors.inc({ code });
+};
+
+/**
+ * All metrics in the Prometheus text exposition format
+ */
+export const renderMetrics = (): string =>
+  `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+const log = logger.child({ module: "http" });
+
+/**
+ * Log each finished request and record its latency. Routes are labelled by
+ * their pattern (e.g. /api/jobs/:id) so IDs don't blow up label cardinality.
+ */
+export const observeRequests = (req: Request, res: Response, next: NextFunction): void => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on("finish", () => {
+    const durationSeconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    httpRequestDuration.observe(
+      { method: req.method, route, status: String(res.statusCode) },
+      durationSeconds
+    );
+    log.info("Request completed", {
+      method: req.method,
+      // Query strings can carry resource keys, so they are left out
+      path: req.originalUrl.split("?")[0],
+      route,
+      status: res.statusCode,
+      durationMs: Math.round(durationSeconds * 1000),
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,30 @@
+import { Router, Request, Response } from "express";
+import { timingSafeEqual } from "crypto";
+import { buildErrorResponse } from "./errorResponses";
+import { renderMetrics } from "./metrics";
+
+export const metricsRouter = Router();
+
+const tokensMatch = (provided: string, expected: string): boolean => {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Prometheus scrape endpoint. Open unless METRICS_TOKEN is set, in which
+ * case scrapers must send it as a bearer token.
+ */
+metricsRouter.get("/metrics", (req: Request, res: Response) => {
+  const expected = process.env.METRICS_TOKEN;
+  if (expected) {
+    const provided = req.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+    if (!tokensMatch(provided, expected)) {
+      const errorBody = buildErrorResponse("UNAUTHORIZED", "A valid metrics token is required.");
+      return res.status(401).json(errorBody);
+    }
+  }
+
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  return res.send(renderMetrics());
+});
@@ -0,0 +1,108 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash, randomBytes } from "crypto";
+import type { Auth } from "googleapis";
+import { encryptSecret, decryptSecret } from "./tokenCrypto";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface OAuthSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  tokens: Auth.Credentials;
+}
+
+/**
+ * Persistence for signed-in users' Google tokens. Implementations must
+ * never store tokens in plaintext.
+ */
+export interface OAuthSessionStore {
+  get(sessionId: string): Promise<OAuthSession | undefined>;
+  save(session: OAuthSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+interface StoredOAuthSession {
+  createdAt: string;
+  updatedAt: string;
+  /** AES-256-GCM encrypted JSON of the token set */
+  tokens: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export const createSessionId = (): string => randomBytes(32).toString("base64url");
+
+// ============================================================================
+// FILE-BACKED STORE
+// ============================================================================
+
+/**
+ * Stores each session as `<baseDir>/<sha256(sessionId)>.json`, with the
+ * tokens encrypted under TOKEN_ENCRYPTION_KEY. Hashing the file name means
+ * reading the directory doesn't reveal usable session cookies.
+ */
+export class FileOAuthSessionStore implements OAuthSessionStore {
+  constructor(private readonly baseDir: string) {}
+
+  async get(sessionId: string): Promise<OAuthSession | undefined> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return undefined;
+    }
+
+    let stored: StoredOAuthSession;
+    try {
+      stored = JSON.parse(await fs.readFile(this.sessionPath(sessionId), "utf8"));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+
+    return {
+      id: sessionId,
+      createdAt: stored.createdAt,
+      updatedAt: stored.updatedAt,
+      tokens: JSON.parse(decryptSecret(stored.tokens)) as Auth.Credentials,
+    };
+  }
+
+  async save(session: OAuthSession): Promise<void> {
+    const stored: StoredOAuthSession = {
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      tokens: encryptSecret(JSON.stringify(session.tokens)),
+    };
+
+    const filePath = this.sessionPath(session.id);
+    await fs.mkdir(this.baseDir, { recursive: true });
+    // Write then rename so readers never see a half-written file
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored), { encoding: "utf8", mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return;
+    }
+    await fs.rm(this.sessionPath(sessionId), { force: true });
+  }
+
+  private sessionPath(sessionId: string): string {
+    const fileName = createHash("sha256").update(sessionId).digest("hex");
+    return path.join(this.baseDir, `${fileName}.json`);
+  }
+}
+
+export const oauthSessionStore: OAuthSessionStore = new FileOAuthSessionStore(
+  process.env.OAUTH_SESSION_DIR || path.join(process.cwd(), "data", "oauth-sessions")
+);
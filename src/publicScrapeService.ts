@@ -1,197 +1,450 @@
-import { google } from "googleapis";
-import path from "path";
-import fs from "fs";
-import type { DriveFile } from "./fileTypes";
+import type {
+  DriveFile,
+  DriveItemResponse,
+  DriveKind,
+  DriveProviderName,
+  DriveSharingInfo,
+} from "./fileTypes";
+import type {
+  DriveListingProvider,
+  DriveItem,
+  DriveItemPage,
+} from "./driveListingProvider";
+import { getDriveListingProvider } from "./driveProviderFactory";
+import { buildExportLinks, resolveExportUrl } from "./workspaceExports";
+import { getDriveKind } from "./driveLinks";
+import { auditFileSharing } from "./sharingAudit";
+import { logger } from "./logger";
+import {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  InvalidPageTokenError,
+  ExtractionCancelledError,
+} from "./scrapeErrors";
+
+export {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  InvalidPageTokenError,
+  ExtractionCancelledError,
+};
 
 // ============================================================================
-// INTERFACES & CUSTOM ERRORS
+// INTERFACES
 // ============================================================================
 
-export interface PublicScrapeResult {
+export interface FolderWalkSummary {
+  foldersVisited: number;
+  truncated: boolean;
+  /** Subfolders that were found but not walked because of `maxDepth` */
+  foldersBeyondMaxDepth: number;
+  source: DriveProviderName;
+  /** Set when files carry a sharing audit (`includeSharing`) */
+  sharingAudited?: boolean;
+}
+
+export interface PublicScrapeResult extends FolderWalkSummary {
   files: DriveFile[];
   isEmptyFolder: boolean;
 }
 
-export class FolderNotFoundError extends Error {
-  constructor(message = "Folder not found") {
-    super(message);
-    this.name = "FolderNotFoundError";
-  }
+export interface FolderPageResult {
+  files: DriveFile[];
+  isEmptyFolder: boolean;
+  nextPageToken: string | null;
+  source: DriveProviderName;
 }
 
-export class PublicAccessForbiddenError extends Error {
-  constructor(message = "Access forbidden") {
-    super(message);
-    this.name = "PublicAccessForbiddenError";
-  }
+export interface ScrapeOptions {
+  recursive?: boolean;
+  maxDepth?: number;
+  maxItems?: number;
+  /** Defaults to the provider selected by DRIVE_PROVIDER */
+  provider?: DriveListingProvider;
+  /** Checked between upstream pages; aborting throws ExtractionCancelledError */
+  signal?: AbortSignal;
+  onProgress?: (progress: ScrapeProgress) => void;
+  /** Resource key and drive kind of the root folder, from its parsed link */
+  resourceKey?: string;
+  driveKind?: DriveKind;
+  /** Audit each file's sharing against the folder it was found in */
+  includeSharing?: boolean;
+}
+
+export interface ScrapeProgress {
+  foldersVisited: number;
+  filesFound: number;
+}
+
+export interface DriveItemOptions {
+  provider?: DriveListingProvider;
+  resourceKey?: string;
+}
+
+export interface FolderPageOptions {
+  pageToken?: string;
+  pageSize?: number;
+  provider?: DriveListingProvider;
+  resourceKey?: string;
+  driveKind?: DriveKind;
+}
+
+interface FolderQueueEntry {
+  id: string;
+  path: string;
+  depth: number;
+  resourceKey?: string;
+  driveKind?: DriveKind;
+  /** The folder's own sharing, when auditing */
+  sharing?: DriveSharingInfo;
 }
 
 // ============================================================================
 // CONSTANTS & ENVIRONMENT VARIABLES
 // ============================================================================
 
-const WEB_APP_URL = process.env.APPS_SCRIPT_WEB_APP_URL;
-const APPS_SCRIPT_SECRET = process.env.APPS_SCRIPT_SECRET;
-const KEY_FILE_PATH = path.join(process.cwd(), "rock-arc-474018-a7-e1573eb95e22.json");
+export const DEFAULT_MAX_DEPTH = 5;
+export const MAX_DEPTH_LIMIT = 20;
+const MAX_ITEMS = Number(process.env.SCRAPE_MAX_ITEMS) || 10000;
 
-// Validate required environment variables at module load
-if (!WEB_APP_URL) {
-  throw new Error("Missing APPS_SCRIPT_WEB_APP_URL environment variable");
-}
-if (!APPS_SCRIPT_SECRET) {
-  throw new Error("Missing APPS_SCRIPT_SECRET environment variable");
-}
+export const DEFAULT_PAGE_SIZE = 500;
+export const MAX_PAGE_SIZE = 1000;
+
+const log = logger.child({ module: "publicScrape" });
+
+const joinFolderPath = (parentPath: string, name: string): string =>
+  parentPath ? `${parentPath}/${name}` : name;
+
+const toDriveFile = (
+  item: DriveItem,
+  location: { path?: string; parentId?: string }
+): DriveFile => {
+  const exportLinks = buildExportLinks(item.id, item.mimeType);
+  return {
+    id: item.id,
+    name: item.name,
+    mimeType: item.mimeType,
+    viewUrl: item.viewUrl,
+    downloadUrl: item.downloadUrl,
+    exportLinks,
+    exportUrl: resolveExportUrl({ mimeType: item.mimeType, exportLinks }),
+    size: item.size,
+    createdTime: item.createdTime,
+    modifiedTime: item.modifiedTime,
+    lastModifyingUser: item.lastModifyingUser,
+    md5Checksum: item.md5Checksum,
+    thumbnailLink: item.thumbnailLink,
+    description: item.description,
+    path: location.path,
+    parentId: location.parentId,
+    ...(item.resourceKey ? { resourceKey: item.resourceKey } : {}),
+    ...(item.shortcutId ? { shortcutId: item.shortcutId } : {}),
+  };
+};
+
+// ============================================================================
+// PAGE CURSORS
+// ============================================================================
 
 /**
- * Get Google Auth credentials from file or environment variable
- * For production (Render), use GOOGLE_SERVICE_ACCOUNT_KEY environment variable
- * For local development, use the key file
+ * Our public page token wraps the provider's token plus an offset into that
+ * provider page, so `pageSize` is honoured even when a backend (e.g. an Apps
+ * Script deployment without paging support) returns everything at once.
  */
-function getAuthCredentials(): { keyFile?: string; credentials?: any; scopes: string[] } {
-  // Check if environment variable is set (for production on Render)
-  const serviceAccountKey = process.env.GOOGLE_SERVICE_ACCOUNT_KEY;
-  
-  if (serviceAccountKey) {
-    try {
-      const credentials = JSON.parse(serviceAccountKey);
-      return {
-        credentials,
-        scopes: ["https://www.googleapis.com/auth/cloud-platform"],
-      };
-    } catch (error) {
-      if (process.env.NODE_ENV !== "production") {
-        console.error("[publicScrape] Failed to parse GOOGLE_SERVICE_ACCOUNT_KEY:", error);
-      }
-      throw new Error("Invalid GOOGLE_SERVICE_ACCOUNT_KEY environment variable");
+interface PageCursor {
+  t: string | null;
+  o: number;
+}
+
+const encodePageCursor = (cursor: PageCursor): string =>
+  Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+
+const decodePageCursor = (pageToken: string): PageCursor => {
+  try {
+    const parsed = JSON.parse(Buffer.from(pageToken, "base64url").toString("utf8"));
+    if (
+      parsed &&
+      (parsed.t === null || typeof parsed.t === "string") &&
+      Number.isInteger(parsed.o) &&
+      parsed.o >= 0
+    ) {
+      return { t: parsed.t, o: parsed.o };
     }
+  } catch {
+    // fall through
   }
-  
-  // Fall back to key file (for local development only)
-  if (fs.existsSync(KEY_FILE_PATH)) {
-    return {
-      keyFile: KEY_FILE_PATH,
-      scopes: ["https://www.googleapis.com/auth/cloud-platform"],
-    };
-  }
-  
-  throw new Error(
-    "Google Service Account credentials not found. " +
-    "Either set GOOGLE_SERVICE_ACCOUNT_KEY environment variable or place key file at: " +
-    KEY_FILE_PATH
-  );
-}
+  throw new InvalidPageTokenError("The provided pageToken is not valid.");
+};
 
 // ============================================================================
-// INTERFACE: Apps Script Web App Response
+// FOLDER WALK
 // ============================================================================
 
-interface AppsScriptItem {
-  id: string;
-  name: string;
-  type: string; // mimeType
-  viewUrl: string;
-  downloadUrl?: string;
-  kind: "file" | "folder";
-}
+/**
+ * Sharing of the folder being walked, which its direct children are
+ * compared against. A failed lookup only makes that comparison unknown;
+ * listing the folder decides whether the walk fails.
+ */
+const getRootFolderSharing = async (
+  provider: DriveListingProvider,
+  folderId: string,
+  resourceKey: string | undefined
+): Promise<DriveSharingInfo | undefined> => {
+  try {
+    const folder = await provider.getItem(folderId, { resourceKey, includeSharing: true });
+    return folder.sharing;
+  } catch (error: unknown) {
+    log.warn("Could not read root folder sharing", { folderId, error });
+    return undefined;
+  }
+};
+
+/**
+ * Walk a folder breadth-first, yielding the files of each upstream page as
+ * soon as it arrives. Resolves to a summary once the walk is complete.
+ */
+export async function* walkFolder(
+  folderId: string,
+  options: ScrapeOptions = {}
+): AsyncGenerator<DriveFile[], FolderWalkSummary, void> {
+  const recursive = options.recursive === true;
+  const maxDepth = recursive
+    ? Math.min(options.maxDepth ?? DEFAULT_MAX_DEPTH, MAX_DEPTH_LIMIT)
+    : 0;
+  const maxItems = options.maxItems ?? MAX_ITEMS;
+  const provider = options.provider ?? getDriveListingProvider();
+  const includeSharing = options.includeSharing === true;
+
+  const visited = new Set<string>([folderId]);
+  const queue: FolderQueueEntry[] = [
+    {
+      id: folderId,
+      path: "",
+      depth: 0,
+      resourceKey: options.resourceKey,
+      driveKind: options.driveKind,
+      sharing: includeSharing
+        ? await getRootFolderSharing(provider, folderId, options.resourceKey)
+        : undefined,
+    },
+  ];
+  let foldersVisited = 0;
+  let filesFound = 0;
+  let foldersBeyondMaxDepth = 0;
+  let truncated = false;
+
+  while (queue.length > 0 && !truncated) {
+    const current = queue.shift()!;
+    let pageToken: string | undefined;
+
+    do {
+      if (options.signal?.aborted) {
+        throw new ExtractionCancelledError();
+      }
+
+      let page: DriveItemPage;
+      try {
+        page = await provider.listFolderPage(current.id, {
+          pageToken,
+          resourceKey: current.resourceKey,
+          driveKind: current.driveKind,
+          includeSharing,
+        });
+      } catch (error) {
+        // Only the root folder decides the outcome; an inaccessible subfolder is skipped
+        if (
+          current.depth > 0 &&
+          (error instanceof FolderNotFoundError ||
+            error instanceof PublicAccessForbiddenError)
+        ) {
+          log.warn("Skipping inaccessible subfolder", { folderId: current.id, error });
+          break;
+        }
+        throw error;
+      }
+      if (!pageToken) {
+        foldersVisited++;
+      }
+
+      const files: DriveFile[] = [];
+      for (const item of page.items) {
+        if (recursive && item.kind === "folder") {
+          // Shortcut loops can point back at a folder we've already walked
+          if (visited.has(item.id)) {
+            log.debug("Skipping already visited folder", { folderId: item.id });
+            continue;
+          }
+          visited.add(item.id);
+
+          if (current.depth < maxDepth) {
+            queue.push({
+              id: item.id,
+              path: joinFolderPath(current.path, item.name),
+              depth: current.depth + 1,
+              resourceKey: item.resourceKey,
+              sharing: item.sharing,
+            });
+          } else {
+            foldersBeyondMaxDepth++;
+          }
+          continue;
+        }
+
+        if (filesFound >= maxItems) {
+          truncated = true;
+          break;
+        }
+
+        const file = toDriveFile(item, { path: current.path, parentId: current.id });
+        if (includeSharing) {
+          file.sharing = auditFileSharing(item.sharing, current.sharing);
+        }
+        files.push(file);
+        filesFound++;
+      }
+
+      options.onProgress?.({ foldersVisited, filesFound });
+
+      if (files.length > 0) {
+        yield files;
+      }
 
-interface AppsScriptResponse {
-  count: number;
-  items: AppsScriptItem[];
+      pageToken = page.nextPageToken ?? undefined;
+    } while (pageToken && !truncated);
+  }
+
+  log.info("Folder walk finished", {
+    folderId,
+    provider: provider.name,
+    foldersVisited,
+    files: filesFound,
+    truncated,
+    foldersBeyondMaxDepth,
+  });
+
+  return {
+    foldersVisited,
+    truncated,
+    foldersBeyondMaxDepth,
+    source: provider.name,
+    ...(includeSharing ? { sharingAudited: true } : {}),
+  };
 }
 
 // ============================================================================
 // MAIN FUNCTION: scrapePublicFolder
 // ============================================================================
 
+/**
+ * List a public folder. With `recursive: true`, subfolders are walked
+ * breadth-first up to `maxDepth` levels and only files are returned, each
+ * tagged with the folder `path` it was found in. Deeper subfolders are counted
+ * in `foldersBeyondMaxDepth` rather than listed.
+ */
 export async function scrapePublicFolder(
-  folderId: string
+  folderId: string,
+  options: ScrapeOptions = {}
 ): Promise<PublicScrapeResult> {
-  const folderUrl = `https://drive.google.com/drive/folders/${folderId}`;
+  const walk = walkFolder(folderId, options);
+  const files: DriveFile[] = [];
 
-  if (process.env.NODE_ENV !== "production") {
-    console.log(`[publicScrape] Calling Apps Script Web App for folder: ${folderUrl}`);
+  let step = await walk.next();
+  while (!step.done) {
+    files.push(...step.value);
+    step = await walk.next();
   }
 
-  try {
-    const authOptions = getAuthCredentials();
-    const auth = new google.auth.GoogleAuth(authOptions);
-    const client = await auth.getClient();
-
-    const response = await client.request({
-      url: WEB_APP_URL!,
-      method: "POST",
-      data: { folderUrl, secret: APPS_SCRIPT_SECRET },
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (process.env.NODE_ENV !== "production") {
-      console.log(`[publicScrape] Web App response received`);
-    }
+  return {
+    ...step.value,
+    files,
+    isEmptyFolder: files.length === 0,
+  };
+}
 
-    let result: AppsScriptResponse;
-    
-    if (typeof response.data === "string") {
-      result = JSON.parse(response.data) as AppsScriptResponse;
-    } else {
-      result = response.data as AppsScriptResponse;
-    }
+/**
+ * Return a single page of a folder's direct children (non-recursive).
+ * `nextPageToken` is null once the listing is exhausted.
+ */
+export async function scrapeFolderPage(
+  folderId: string,
+  options: FolderPageOptions = {}
+): Promise<FolderPageResult> {
+  const provider = options.provider ?? getDriveListingProvider();
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const cursor = options.pageToken
+    ? decodePageCursor(options.pageToken)
+    : { t: null, o: 0 };
 
-    if (!result || !result.items) {
-      console.error(`[publicScrape] Invalid response from Web App`);
-      throw new Error("Apps Script Web App returned invalid response");
-    }
+  const page = await provider.listFolderPage(folderId, {
+    pageToken: cursor.t ?? undefined,
+    pageSize,
+    resourceKey: options.resourceKey,
+    driveKind: options.driveKind,
+  });
 
-    if (process.env.NODE_ENV !== "production") {
-      console.log(`[publicScrape] Web App returned ${result.count} items`);
-    }
+  const end = cursor.o + pageSize;
+  const files = page.items
+    .slice(cursor.o, end)
+    .map((item) => toDriveFile(item, { path: "", parentId: folderId }));
 
-    const mappedFiles: DriveFile[] = result.items.map((item) => ({
-      id: item.id,
-      name: item.name,
-      mimeType: item.type,
-      viewUrl: item.viewUrl,
-      downloadUrl: item.downloadUrl ?? null,
-    }));
+  let next: PageCursor | null = null;
+  if (end < page.items.length) {
+    next = { t: cursor.t, o: end };
+  } else if (page.nextPageToken) {
+    next = { t: page.nextPageToken, o: 0 };
+  }
 
-    const isEmptyFolder = mappedFiles.length === 0;
+  return {
+    files,
+    isEmptyFolder: !options.pageToken && files.length === 0 && !next,
+    nextPageToken: next ? encodePageCursor(next) : null,
+    source: provider.name,
+  };
+}
 
-    if (process.env.NODE_ENV !== "production") {
-      console.log(`[publicScrape] Mapped ${mappedFiles.length} items (isEmptyFolder: ${isEmptyFolder})`);
-    }
+// ============================================================================
+// SINGLE ITEMS
+// ============================================================================
 
+/**
+ * Look up one file or folder through the provider. Files get the same shape
+ * as listing entries (with `parentId` set and no `path`).
+ */
+export async function getDriveItem(
+  id: string,
+  options: DriveItemOptions = {}
+): Promise<DriveItemResponse> {
+  const provider = options.provider ?? getDriveListingProvider();
+  const item = await provider.getItem(id, { resourceKey: options.resourceKey });
+
+  if (item.kind === "folder") {
     return {
-      files: mappedFiles,
-      isEmptyFolder,
+      kind: "folder",
+      source: provider.name,
+      folder: {
+        id: item.id,
+        name: item.name,
+        mimeType: item.mimeType,
+        viewUrl: item.viewUrl,
+        parentId: item.parentId,
+        driveKind: getDriveKind(item.id),
+        ...(item.resourceKey ? { resourceKey: item.resourceKey } : {}),
+        size: item.size,
+        createdTime: item.createdTime,
+        modifiedTime: item.modifiedTime,
+        lastModifyingUser: item.lastModifyingUser,
+        md5Checksum: item.md5Checksum,
+        thumbnailLink: item.thumbnailLink,
+        description: item.description,
+      },
     };
-  } catch (error) {
-    if (
-      error instanceof FolderNotFoundError ||
-      error instanceof PublicAccessForbiddenError
-    ) {
-      throw error;
-    }
-
-    if (error instanceof Error) {
-      if (error.message.includes("ENOENT") || error.message.includes("keyFile")) {
-        console.error(`[publicScrape] Authentication error: Could not find key file`);
-        throw new Error("Missing credentials");
-      }
-
-      if (error.message.includes("invalid_grant") || error.message.includes("unauthorized")) {
-        console.error(`[publicScrape] Authentication error: Invalid credentials`);
-        throw new Error("Invalid service account credentials");
-      }
-
-      if (error.message.includes("404") || error.message.includes("not found")) {
-        throw new FolderNotFoundError(`Folder ${folderId} not found`);
-      }
-
-      if (error.message.includes("403") || error.message.includes("forbidden")) {
-        throw new PublicAccessForbiddenError(`Folder ${folderId} access forbidden`);
-      }
-    }
-
-    console.error(`[publicScrape] Error calling Apps Script Web App:`, error instanceof Error ? error.message : String(error));
-    throw new Error(`Failed to scrape folder: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  return {
+    kind: "file",
+    source: provider.name,
+    file: toDriveFile(item, { parentId: item.parentId ?? undefined }),
+  };
 }
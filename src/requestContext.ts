@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Accept IDs from upstream proxies only if they are safe to log and echo back
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Correlation ID of the request (or background task) being handled, if any
+ */
+export const getRequestId = (): string | undefined => storage.getStore()?.requestId;
+
+/**
+ * Run `fn` with its own correlation ID, e.g. for timer-driven work that
+ * should not inherit the ID of the request that scheduled it
+ */
+export const runWithRequestId = <T>(requestId: string, fn: () => T): T =>
+  storage.run({ requestId }, fn);
+
+/**
+ * Reuse the caller's X-Request-Id (or generate one), echo it in the response
+ * and make it available to everything that runs for this request
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.locals.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  runWithRequestId(requestId, next);
+};
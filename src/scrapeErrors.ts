@@ -0,0 +1,82 @@
+export class FolderNotFoundError extends Error {
+  constructor(message = "Folder not found") {
+    super(message);
+    this.name = "FolderNotFoundError";
+  }
+}
+
+export class FileNotFoundError extends Error {
+  constructor(message = "File not found") {
+    super(message);
+    this.name = "FileNotFoundError";
+  }
+}
+
+export class PublicAccessForbiddenError extends Error {
+  constructor(message = "Access forbidden") {
+    super(message);
+    this.name = "PublicAccessForbiddenError";
+  }
+}
+
+export class InvalidPageTokenError extends Error {
+  constructor(message = "Invalid page token") {
+    super(message);
+    this.name = "InvalidPageTokenError";
+  }
+}
+
+export class ExtractionCancelledError extends Error {
+  constructor(message = "Extraction cancelled") {
+    super(message);
+    this.name = "ExtractionCancelledError";
+  }
+}
+
+/**
+ * The upstream rejected our own credentials (HTTP 401): a configuration
+ * problem on this server, not something the caller can fix by sharing
+ */
+export class UpstreamAuthError extends Error {
+  constructor(message = "Upstream rejected the server's credentials") {
+    super(message);
+    this.name = "UpstreamAuthError";
+  }
+}
+
+/**
+ * The upstream did not answer within UPSTREAM_TIMEOUT_MS
+ */
+export class UpstreamTimeoutError extends Error {
+  constructor(message = "Upstream request timed out") {
+    super(message);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * Google (or the Apps Script quota) asked us to slow down
+ */
+export class UpstreamRateLimitedError extends Error {
+  constructor(
+    message = "Upstream rate limit exceeded",
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "UpstreamRateLimitedError";
+  }
+}
+
+/**
+ * The upstream failed with a 5xx or network error, or the circuit breaker
+ * is open because it has been failing
+ */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    message = "Upstream unavailable",
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "UpstreamUnavailableError";
+  }
+}
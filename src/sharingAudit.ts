@@ -0,0 +1,91 @@
+import type {
+  DriveFile,
+  DriveSharingInfo,
+  FileSharingAudit,
+  SharingAuditSummary,
+  SharingFlag,
+  SharingLevel,
+} from "./fileTypes";
+import { UNKNOWN_SHARING } from "./driveListingProvider";
+
+// How far beyond explicitly added people an item reaches
+const LEVEL_REACH: Record<Exclude<SharingLevel, "unknown">, number> = {
+  restricted: 0,
+  domain: 1,
+  "anyone-with-link": 2,
+};
+
+export const SHARING_LEVELS: readonly SharingLevel[] = [
+  "anyone-with-link",
+  "domain",
+  "restricted",
+  "unknown",
+];
+
+export const SHARING_FLAGS: readonly SharingFlag[] = [
+  "anyone-with-link",
+  "broader-than-parent",
+  "downloadable-by-viewers",
+  "unknown-sharing",
+];
+
+/**
+ * Compare a file's sharing with the folder it was listed in and flag what
+ * a reviewer should look at
+ */
+export const auditFileSharing = (
+  sharing: DriveSharingInfo | undefined,
+  parentSharing: DriveSharingInfo | undefined
+): FileSharingAudit => {
+  const own = sharing ?? UNKNOWN_SHARING;
+  const parentLevel = parentSharing?.level ?? "unknown";
+  const broaderThanParent =
+    own.level === "unknown" || parentLevel === "unknown"
+      ? null
+      : LEVEL_REACH[own.level] > LEVEL_REACH[parentLevel];
+
+  const flags: SharingFlag[] = [];
+  if (own.level === "anyone-with-link") {
+    flags.push("anyone-with-link");
+  }
+  if (broaderThanParent) {
+    flags.push("broader-than-parent");
+  }
+  // Only matters when someone beyond the named collaborators can open it
+  if (own.viewersCanDownload && (own.level === "anyone-with-link" || own.level === "domain")) {
+    flags.push("downloadable-by-viewers");
+  }
+  if (own.level === "unknown") {
+    flags.push("unknown-sharing");
+  }
+
+  return { ...own, parentLevel, broaderThanParent, flags };
+};
+
+/**
+ * Counts over the files that carry a sharing audit
+ */
+export const summarizeSharingAudit = (files: DriveFile[]): SharingAuditSummary => {
+  const summary: SharingAuditSummary = {
+    filesAudited: 0,
+    flaggedFiles: 0,
+    byLevel: Object.fromEntries(SHARING_LEVELS.map((level) => [level, 0])) as Record<SharingLevel, number>,
+    byFlag: Object.fromEntries(SHARING_FLAGS.map((flag) => [flag, 0])) as Record<SharingFlag, number>,
+  };
+
+  for (const file of files) {
+    if (!file.sharing) {
+      continue;
+    }
+    summary.filesAudited++;
+    summary.byLevel[file.sharing.level]++;
+    if (file.sharing.flags.length > 0) {
+      summary.flaggedFiles++;
+    }
+    for (const flag of file.sharing.flags) {
+      summary.byFlag[flag]++;
+    }
+  }
+
+  return summary;
+};
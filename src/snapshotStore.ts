@@ -0,0 +1,167 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { DriveFile, DriveProviderName } from "./fileTypes";
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface FolderSnapshot {
+  id: string;
+  folderId: string;
+  createdAt: string;
+  source: DriveProviderName;
+  recursive: boolean;
+  maxDepth?: number;
+  /** Resource key the folder was listed with, reused for live diffs */
+  resourceKey?: string;
+  files: DriveFile[];
+}
+
+export type FolderSnapshotSummary = Omit<FolderSnapshot, "files"> & {
+  fileCount: number;
+};
+
+/**
+ * Persistence for folder listings over time. Swap in a database-backed
+ * implementation by providing another SnapshotStore.
+ */
+export interface SnapshotStore {
+  save(snapshot: FolderSnapshot): Promise<void>;
+  get(folderId: string, snapshotId: string): Promise<FolderSnapshot | undefined>;
+  /** Newest first */
+  list(folderId: string): Promise<FolderSnapshotSummary[]>;
+  latest(folderId: string): Promise<FolderSnapshot | undefined>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Snapshots kept per folder; older ones are deleted as new ones are saved
+const MAX_SNAPSHOTS_PER_FOLDER = Number(process.env.SNAPSHOT_RETENTION) || 50;
+
+/**
+ * Snapshot IDs sort chronologically: an ISO timestamp plus a random suffix
+ */
+export const createSnapshotId = (date = new Date()): string =>
+  `${date.toISOString().replace(/[-:.]/g, "")}-${randomBytes(3).toString("hex")}`;
+
+export const toSnapshotSummary = ({
+  files,
+  ...rest
+}: FolderSnapshot): FolderSnapshotSummary => ({
+  ...rest,
+  fileCount: files.length,
+});
+
+// ============================================================================
+// FILE-BACKED STORE
+// ============================================================================
+
+/**
+ * Stores each snapshot as `<baseDir>/<folderId>/<snapshotId>.json`, keeping
+ * the newest `maxPerFolder` for each folder
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(
+    private readonly baseDir: string,
+    private readonly maxPerFolder = MAX_SNAPSHOTS_PER_FOLDER
+  ) {}
+
+  async save(snapshot: FolderSnapshot): Promise<void> {
+    const filePath = this.snapshotPath(snapshot.folderId, snapshot.id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a half-written file
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, filePath);
+
+    await this.prune(snapshot.folderId);
+  }
+
+  async get(folderId: string, snapshotId: string): Promise<FolderSnapshot | undefined> {
+    if (!SAFE_ID_PATTERN.test(folderId) || !SAFE_ID_PATTERN.test(snapshotId)) {
+      return undefined;
+    }
+
+    try {
+      const raw = await fs.readFile(this.snapshotPath(folderId, snapshotId), "utf8");
+      return JSON.parse(raw) as FolderSnapshot;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async list(folderId: string): Promise<FolderSnapshotSummary[]> {
+    const snapshotIds = await this.listSnapshotIds(folderId);
+
+    const summaries: FolderSnapshotSummary[] = [];
+    for (const snapshotId of snapshotIds) {
+      const snapshot = await this.get(folderId, snapshotId);
+      if (snapshot) {
+        summaries.push(toSnapshotSummary(snapshot));
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Only the newest file is read; the IDs alone say which one that is
+   */
+  async latest(folderId: string): Promise<FolderSnapshot | undefined> {
+    const [snapshotId] = await this.listSnapshotIds(folderId);
+    return snapshotId ? this.get(folderId, snapshotId) : undefined;
+  }
+
+  /**
+   * Delete all but the newest `maxPerFolder` snapshots of a folder
+   */
+  private async prune(folderId: string): Promise<void> {
+    const expired = (await this.listSnapshotIds(folderId)).slice(this.maxPerFolder);
+    for (const snapshotId of expired) {
+      await fs.rm(this.snapshotPath(folderId, snapshotId), { force: true });
+    }
+  }
+
+  /** Newest first; IDs sort chronologically */
+  private async listSnapshotIds(folderId: string): Promise<string[]> {
+    if (!SAFE_ID_PATTERN.test(folderId)) {
+      return [];
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(path.join(this.baseDir, folderId));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => entry.slice(0, -".json".length))
+      .sort()
+      .reverse();
+  }
+
+  private snapshotPath(folderId: string, snapshotId: string): string {
+    if (!SAFE_ID_PATTERN.test(folderId) || !SAFE_ID_PATTERN.test(snapshotId)) {
+      throw new Error("Invalid folder or snapshot ID");
+    }
+    return path.join(this.baseDir, folderId, `${snapshotId}.json`);
+  }
+}
+
+export const snapshotStore: SnapshotStore = new FileSnapshotStore(
+  process.env.SNAPSHOT_DIR || path.join(process.cwd(), "data", "snapshots")
+);
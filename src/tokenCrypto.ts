@@ -0,0 +1,60 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const MIN_SECRET_LENGTH = 32;
+
+export class TokenEncryptionKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenEncryptionKeyError";
+  }
+}
+
+/**
+ * Derive the AES key from TOKEN_ENCRYPTION_KEY. Throws if it is missing or
+ * too short to be a real secret.
+ */
+const getEncryptionKey = (secret = process.env.TOKEN_ENCRYPTION_KEY): Buffer => {
+  if (!secret || secret.length < MIN_SECRET_LENGTH) {
+    throw new TokenEncryptionKeyError(
+      `TOKEN_ENCRYPTION_KEY must be set to a random string of at least ${MIN_SECRET_LENGTH} characters.`
+    );
+  }
+  return createHash("sha256").update(secret, "utf8").digest();
+};
+
+/**
+ * Fail fast at startup instead of on the first sign-in
+ */
+export const assertTokenEncryptionKey = (secret?: string): void => {
+  getEncryptionKey(secret);
+};
+
+/**
+ * Encrypt with AES-256-GCM. Output is `iv.tag.ciphertext`, base64url encoded.
+ */
+export const encryptSecret = (plaintext: string, secret?: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(secret), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+};
+
+/**
+ * Reverse encryptSecret. Throws if the data was tampered with or was
+ * encrypted under a different key.
+ */
+export const decryptSecret = (encrypted: string, secret?: string): string => {
+  const [iv, tag, ciphertext] = encrypted
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted value");
+  }
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(secret), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+};
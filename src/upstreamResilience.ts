@@ -0,0 +1,405 @@
+import {
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  UpstreamAuthError,
+  UpstreamTimeoutError,
+  UpstreamRateLimitedError,
+  UpstreamUnavailableError,
+} from "./scrapeErrors";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "upstream" });
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+export const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS) || 30000;
+const UPSTREAM_MAX_ATTEMPTS = Number(process.env.UPSTREAM_MAX_ATTEMPTS) || 3;
+const UPSTREAM_RETRY_BASE_MS = Number(process.env.UPSTREAM_RETRY_BASE_MS) || 500;
+// Longest we wait between attempts, including waits asked for by Retry-After
+const UPSTREAM_RETRY_MAX_DELAY_MS = Number(process.env.UPSTREAM_RETRY_MAX_DELAY_MS) || 10000;
+
+const CIRCUIT_FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5;
+const CIRCUIT_OPEN_MS = Number(process.env.CIRCUIT_OPEN_MS) || 30000;
+
+// Retry-After hints for clients when the upstream didn't send its own
+export const DEFAULT_RATE_LIMIT_RETRY_AFTER_SECONDS = 30;
+export const DEFAULT_UNAVAILABLE_RETRY_AFTER_SECONDS = Math.ceil(CIRCUIT_OPEN_MS / 1000);
+
+// Drive reports per-user and per-project quota errors as 403 with these reasons
+const RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "dailyLimitExceeded",
+  "quotaExceeded",
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// ============================================================================
+// ERROR INSPECTION
+// ============================================================================
+
+export interface UpstreamErrorInfo {
+  /** HTTP status, when the upstream responded */
+  status?: number;
+  /** System error code (e.g. ECONNRESET) for network failures */
+  code?: string;
+  /** Google API error reason, e.g. "rateLimitExceeded" */
+  reason?: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * Parse a Retry-After header: either delay-seconds or an HTTP date
+ */
+export const parseRetryAfter = (
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim());
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+const readHeader = (headers: unknown, name: string): string | undefined => {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name.toLowerCase()];
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Google JSON errors look like `{ error: { code, errors: [{ reason }], status } }`
+ */
+const readErrorReason = (data: unknown): string | undefined => {
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+  const error = (data as { error?: unknown }).error;
+  if (typeof error === "string") {
+    // OAuth token endpoint errors, e.g. { error: "invalid_grant" }
+    return error;
+  }
+  if (!error || typeof error !== "object") {
+    return undefined;
+  }
+  const { errors, status } = error as { errors?: { reason?: unknown }[]; status?: unknown };
+  const reason = errors?.[0]?.reason;
+  if (typeof reason === "string") {
+    return reason;
+  }
+  return typeof status === "string" ? status : undefined;
+};
+
+/**
+ * Pull the HTTP status, response body reason and network error code out of
+ * a gaxios (googleapis) or axios error. Error messages are never inspected.
+ */
+export const getUpstreamErrorInfo = (error: unknown): UpstreamErrorInfo => {
+  if (typeof error !== "object" || error === null) {
+    return {};
+  }
+
+  const { response, status, code, cause } = error as {
+    response?: { status?: number; headers?: unknown; data?: unknown };
+    status?: unknown;
+    code?: unknown;
+    cause?: { code?: unknown };
+  };
+
+  const httpStatus =
+    typeof response?.status === "number"
+      ? response.status
+      : typeof status === "number"
+        ? status
+        : typeof code === "number"
+          ? code
+          : undefined;
+
+  const systemCode =
+    typeof code === "string" ? code : typeof cause?.code === "string" ? cause.code : undefined;
+
+  return {
+    status: httpStatus,
+    code: systemCode,
+    reason: readErrorReason(response?.data),
+    retryAfterSeconds: parseRetryAfter(readHeader(response?.headers, "Retry-After")),
+  };
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+export interface UpstreamSubject {
+  kind: "folder" | "file";
+  id: string;
+}
+
+const notFound = ({ kind, id }: UpstreamSubject): Error =>
+  kind === "file"
+    ? new FileNotFoundError(`File ${id} not found`)
+    : new FolderNotFoundError(`Folder ${id} not found`);
+
+/**
+ * Map an upstream failure to one of our error classes by HTTP status,
+ * response body and network error code. Returns undefined for failures
+ * that don't fit any class, which callers treat as unexpected.
+ */
+export const classifyUpstreamError = (
+  info: UpstreamErrorInfo,
+  subject: UpstreamSubject
+): Error | undefined => {
+  const { status, code, reason, retryAfterSeconds } = info;
+  const label = `${subject.kind} ${subject.id}`;
+
+  if (status === 404) {
+    return notFound(subject);
+  }
+  if (status === 429 || (status === 403 && reason && RATE_LIMIT_REASONS.has(reason))) {
+    return new UpstreamRateLimitedError(`Rate limited while fetching ${label}`, retryAfterSeconds);
+  }
+  if (status === 401) {
+    // Our token or service account was rejected, whatever the item's sharing
+    return new UpstreamAuthError(`Credentials rejected while fetching ${label}`);
+  }
+  if (status === 403) {
+    return new PublicAccessForbiddenError(
+      `${subject.kind === "file" ? "File" : "Folder"} ${subject.id} access forbidden`
+    );
+  }
+  if (status === 408 || code === "ETIMEDOUT" || code === "TimeoutError") {
+    return new UpstreamTimeoutError(`Timed out while fetching ${label}`);
+  }
+  if ((status !== undefined && status >= 500) || (code && NETWORK_ERROR_CODES.has(code))) {
+    return new UpstreamUnavailableError(
+      `Upstream failed (${status ?? code}) while fetching ${label}`,
+      retryAfterSeconds
+    );
+  }
+  return undefined;
+};
+
+const isUpstreamFailure = (error: unknown): boolean =>
+  error instanceof UpstreamTimeoutError ||
+  error instanceof UpstreamRateLimitedError ||
+  error instanceof UpstreamUnavailableError;
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Opens after CIRCUIT_FAILURE_THRESHOLD consecutive upstream failures and
+ * fails fast for CIRCUIT_OPEN_MS. Then a single trial call is let through:
+ * success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold = CIRCUIT_FAILURE_THRESHOLD,
+    private readonly openMs = CIRCUIT_OPEN_MS
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Throw UpstreamUnavailableError instead of calling an upstream that is down
+   */
+  assertCallAllowed(): void {
+    if (this.state === "open") {
+      const remainingMs = this.openedAt + this.openMs - Date.now();
+      if (remainingMs > 0) {
+        throw new UpstreamUnavailableError(
+          `${this.name} is unavailable; not retrying for ${Math.ceil(remainingMs / 1000)}s`,
+          Math.ceil(remainingMs / 1000)
+        );
+      }
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+
+    if (this.state === "half-open") {
+      if (this.trialInFlight) {
+        throw new UpstreamUnavailableError(
+          `${this.name} is recovering; try again shortly`,
+          Math.ceil(this.openMs / 1000)
+        );
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      log.info("Circuit closed", { circuit: this.name });
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The call failed in a way that says nothing about the upstream's health
+   * (e.g. an error we don't recognise). Counts neither way, but lets the
+   * next trial call through when half-open.
+   */
+  recordInconclusive(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== "open") {
+        log.warn("Circuit opened", {
+          circuit: this.name,
+          consecutiveFailures: this.consecutiveFailures,
+          openMs: this.openMs,
+        });
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// ============================================================================
+// MAIN FUNCTION: callUpstream
+// ============================================================================
+
+export interface UpstreamCallOptions {
+  breaker: CircuitBreaker;
+  /** What the call fetches; used for error messages and classification */
+  subject: UpstreamSubject;
+  /** Fallback for failures classifyUpstreamError doesn't recognise */
+  onUnclassifiedError: (error: unknown) => Error;
+  timeoutMs?: number;
+  maxAttempts?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Full jitter: a random delay up to the exponential backoff for this attempt
+ */
+const backoffDelayMs = (attempt: number): number =>
+  Math.random() * Math.min(UPSTREAM_RETRY_MAX_DELAY_MS, UPSTREAM_RETRY_BASE_MS * 2 ** (attempt - 1));
+
+const ourErrorClasses = [
+  FolderNotFoundError,
+  FileNotFoundError,
+  PublicAccessForbiddenError,
+  UpstreamAuthError,
+  UpstreamTimeoutError,
+  UpstreamRateLimitedError,
+  UpstreamUnavailableError,
+];
+
+/**
+ * Call the upstream with a timeout, retrying timeouts, rate limits and 5xx
+ * responses with jittered exponential backoff, behind a circuit breaker.
+ * `call` receives an AbortSignal that fires when the attempt times out.
+ */
+export async function callUpstream<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  {
+    breaker,
+    subject,
+    onUnclassifiedError,
+    timeoutMs = UPSTREAM_TIMEOUT_MS,
+    maxAttempts = UPSTREAM_MAX_ATTEMPTS,
+  }: UpstreamCallOptions
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    breaker.assertCallAllowed();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let failure: Error;
+    let classified = true;
+    try {
+      const result = await call(controller.signal);
+      breaker.recordSuccess();
+      return result;
+    } catch (error: unknown) {
+      if (controller.signal.aborted) {
+        failure = new UpstreamTimeoutError(
+          `Timed out after ${timeoutMs}ms fetching ${subject.kind} ${subject.id}`
+        );
+      } else if (ourErrorClasses.some((errorClass) => error instanceof errorClass)) {
+        // Already classified, e.g. from an Apps Script error body
+        failure = error as Error;
+      } else {
+        const known = classifyUpstreamError(getUpstreamErrorInfo(error), subject);
+        classified = known !== undefined;
+        failure = known ?? onUnclassifiedError(error);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!classified || failure instanceof UpstreamAuthError) {
+      // Neither proves the upstream is up, and retrying won't help
+      breaker.recordInconclusive();
+      throw failure;
+    }
+    if (!isUpstreamFailure(failure)) {
+      // A 404 or 403 still means the upstream is up
+      breaker.recordSuccess();
+      throw failure;
+    }
+    breaker.recordFailure();
+
+    const retryAfterSeconds =
+      failure instanceof UpstreamRateLimitedError || failure instanceof UpstreamUnavailableError
+        ? failure.retryAfterSeconds
+        : undefined;
+    const delayMs = Math.max(backoffDelayMs(attempt), (retryAfterSeconds ?? 0) * 1000);
+    if (attempt >= maxAttempts || delayMs > UPSTREAM_RETRY_MAX_DELAY_MS) {
+      throw failure;
+    }
+
+    log.warn("Retrying upstream call", {
+      circuit: breaker.name,
+      subject: subject.kind,
+      id: subject.id,
+      attempt,
+      delayMs: Math.round(delayMs),
+      error: failure,
+    });
+    await sleep(delayMs);
+  }
+}
@@ -0,0 +1,43 @@
+import { Router, Request, Response } from "express";
+import { buildErrorResponse } from "./errorResponses";
+import { API_KEY_HEADER, getRequestApiKey } from "./apiKeyAuth";
+import { usageTracker } from "./usageTracker";
+
+export const usageRouter = Router();
+
+const remaining = (quota: number | null, used: number): number | null =>
+  quota === null ? null : Math.max(quota - used, 0);
+
+/**
+ * Today's usage and limits for the calling API key
+ */
+usageRouter.get("/usage", (_req: Request, res: Response) => {
+  const apiKey = getRequestApiKey(res);
+  if (!apiKey) {
+    const errorBody = buildErrorResponse(
+      "UNAUTHORIZED",
+      `Usage is tracked per API key. Send your key in the ${API_KEY_HEADER} header.`
+    );
+    return res.status(401).json(errorBody);
+  }
+
+  const usage = usageTracker.get(apiKey.id);
+  return res.status(200).json({
+    keyId: apiKey.id,
+    name: apiKey.name,
+    day: usage.day,
+    usage: {
+      extractions: usage.extractions,
+      filesListed: usage.filesListed,
+    },
+    limits: {
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      dailyExtractionQuota: apiKey.dailyExtractionQuota,
+      dailyFileQuota: apiKey.dailyFileQuota,
+    },
+    remaining: {
+      extractions: remaining(apiKey.dailyExtractionQuota, usage.extractions),
+      files: remaining(apiKey.dailyFileQuota, usage.filesListed),
+    },
+  });
+});
@@ -0,0 +1,35 @@
+export interface DailyUsage {
+  /** UTC day the counters apply to, e.g. "2024-05-01" */
+  day: string;
+  extractions: number;
+  filesListed: number;
+}
+
+const currentDay = (now = new Date()): string => now.toISOString().slice(0, 10);
+
+/**
+ * Per-key usage counters for the current UTC day. Counters are process-local
+ * and start again at zero each day (and on restart).
+ */
+export class UsageTracker {
+  private readonly usage = new Map<string, DailyUsage>();
+
+  get(keyId: string): DailyUsage {
+    const day = currentDay();
+    const entry = this.usage.get(keyId);
+    if (entry && entry.day === day) {
+      return { ...entry };
+    }
+    return { day, extractions: 0, filesListed: 0 };
+  }
+
+  record(keyId: string, delta: { extractions?: number; files?: number }): DailyUsage {
+    const entry = this.get(keyId);
+    entry.extractions += delta.extractions ?? 0;
+    entry.filesListed += delta.files ?? 0;
+    this.usage.set(keyId, entry);
+    return { ...entry };
+  }
+}
+
+export const usageTracker = new UsageTracker();
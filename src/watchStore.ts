@@ -0,0 +1,76 @@
+import type { DriveFile, DriveKind, WebhookDeliveryStatus } from "./fileTypes";
+import type { MappedErrorResponse } from "./errorResponses";
+import type { FileQuery } from "./fileFilters";
+
+export interface FolderWatch {
+  id: string;
+  folderId: string;
+  webhookUrl: string;
+  /** HMAC key for webhook signatures */
+  secret: string;
+  intervalMs: number;
+  recursive: boolean;
+  maxDepth?: number;
+  resourceKey?: string;
+  driveKind?: DriveKind;
+  query?: FileQuery;
+  /** Key that created the watch; only that key can see or delete it */
+  apiKeyId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  lastCheckedAt: Date | null;
+  lastChangedAt: Date | null;
+  lastFailure?: MappedErrorResponse;
+  lastDelivery: WebhookDeliveryStatus | null;
+  /** Listing from the last successful check; changes are reported against it */
+  baseline?: DriveFile[];
+}
+
+export type FolderWatchUpdate = Partial<Omit<FolderWatch, "id" | "createdAt">>;
+
+/**
+ * Persistence for folder watches. Async for the same reason as JobStore.
+ */
+export interface WatchStore {
+  create(watch: FolderWatch): Promise<void>;
+  get(id: string): Promise<FolderWatch | undefined>;
+  list(): Promise<FolderWatch[]>;
+  update(id: string, update: FolderWatchUpdate): Promise<FolderWatch | undefined>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Process-local watch store. Watches live until deleted or the server restarts.
+ */
+export class InMemoryWatchStore implements WatchStore {
+  private readonly watches = new Map<string, FolderWatch>();
+
+  async create(watch: FolderWatch): Promise<void> {
+    this.watches.set(watch.id, watch);
+  }
+
+  async get(id: string): Promise<FolderWatch | undefined> {
+    return this.watches.get(id);
+  }
+
+  async list(): Promise<FolderWatch[]> {
+    return [...this.watches.values()];
+  }
+
+  async update(
+    id: string,
+    update: FolderWatchUpdate
+  ): Promise<FolderWatch | undefined> {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      return undefined;
+    }
+    const updated: FolderWatch = { ...watch, ...update, updatedAt: new Date() };
+    this.watches.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.watches.delete(id);
+  }
+}
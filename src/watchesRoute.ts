@@ -0,0 +1,194 @@
+import { Router, Request, Response, NextFunction } from "express";
+import type { FolderWatchResponse } from "./fileTypes";
+import { buildErrorResponse } from "./errorResponses";
+import { parseExtractRequest } from "./extractRequest";
+import {
+  watchStore,
+  createFolderWatch,
+  deleteFolderWatch,
+  WatchLimitReachedError,
+  MIN_WATCH_INTERVAL_SECONDS,
+  MAX_WATCH_INTERVAL_SECONDS,
+} from "./folderWatches";
+import type { FolderWatch } from "./watchStore";
+import { assertSafeWebhookUrl, InvalidWebhookUrlError } from "./webhookDelivery";
+import { getRequestApiKey } from "./apiKeyAuth";
+
+export const watchesRouter = Router();
+
+const MIN_SECRET_LENGTH = 16;
+
+interface WatchRequestBody {
+  folderUrl: string;
+  webhookUrl: string;
+  intervalSeconds: number;
+  recursive?: boolean;
+  maxDepth?: number;
+  filter?: unknown;
+  /** Optional signing secret; one is generated when omitted */
+  secret?: string;
+}
+
+const toFolderWatchResponse = (watch: FolderWatch): FolderWatchResponse => ({
+  id: watch.id,
+  folderId: watch.folderId,
+  webhookUrl: watch.webhookUrl,
+  intervalSeconds: watch.intervalMs / 1000,
+  recursive: watch.recursive,
+  maxDepth: watch.maxDepth,
+  createdAt: watch.createdAt.toISOString(),
+  lastCheckedAt: watch.lastCheckedAt?.toISOString() ?? null,
+  lastChangedAt: watch.lastChangedAt?.toISOString() ?? null,
+  lastError: watch.lastFailure?.body.error,
+  lastDelivery: watch.lastDelivery,
+});
+
+/**
+ * Watches belong to the API key that created them. Anonymous watches can
+ * only be reached by their (unguessable) ID.
+ */
+const isOwnWatch = (watch: FolderWatch, res: Response): boolean =>
+  watch.apiKeyId === getRequestApiKey(res)?.id;
+
+const sendWatchNotFound = (res: Response, id: string): Response => {
+  const errorBody = buildErrorResponse(
+    "WATCH_NOT_FOUND",
+    `No folder watch found with ID '${id}'.`
+  );
+  return res.status(404).json(errorBody);
+};
+
+watchesRouter.post(
+  "/watches",
+  async (
+    req: Request<unknown, unknown, WatchRequestBody>,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { folderUrl, webhookUrl, intervalSeconds, recursive, maxDepth, filter, secret } =
+      req.body ?? {};
+
+    const parsed = parseExtractRequest({ folderUrl, recursive, maxDepth, filter });
+    if (parsed.kind === "error") {
+      return res.status(parsed.status).json(parsed.body);
+    }
+    if (parsed.kind === "file") {
+      const errorBody = buildErrorResponse(
+        "INVALID_FOLDER_URL",
+        "Watches require a folder URL, not a single file link."
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (
+      !Number.isInteger(intervalSeconds) ||
+      intervalSeconds < MIN_WATCH_INTERVAL_SECONDS ||
+      intervalSeconds > MAX_WATCH_INTERVAL_SECONDS
+    ) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        `'intervalSeconds' must be an integer between ${MIN_WATCH_INTERVAL_SECONDS} and ${MAX_WATCH_INTERVAL_SECONDS}.`
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    if (
+      secret !== undefined &&
+      (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH)
+    ) {
+      const errorBody = buildErrorResponse(
+        "INVALID_REQUEST",
+        `'secret' must be a string of at least ${MIN_SECRET_LENGTH} characters.`
+      );
+      return res.status(400).json(errorBody);
+    }
+
+    try {
+      if (typeof webhookUrl !== "string") {
+        throw new InvalidWebhookUrlError("'webhookUrl' is required.");
+      }
+      await assertSafeWebhookUrl(webhookUrl);
+
+      const watch = await createFolderWatch({
+        folderId: parsed.folderId,
+        webhookUrl,
+        intervalSeconds,
+        recursive: parsed.options.recursive,
+        maxDepth: parsed.options.maxDepth,
+        resourceKey: parsed.options.resourceKey,
+        driveKind: parsed.options.driveKind,
+        query: parsed.query,
+        secret,
+        apiKeyId: getRequestApiKey(res)?.id,
+      });
+
+      res.setHeader("Location", `${req.baseUrl}/watches/${watch.id}`);
+      return res
+        .status(201)
+        .json({ ...toFolderWatchResponse(watch), secret: watch.secret });
+    } catch (error: unknown) {
+      if (
+        error instanceof InvalidWebhookUrlError ||
+        error instanceof WatchLimitReachedError
+      ) {
+        const errorBody = buildErrorResponse(error.code, error.message);
+        return res.status(400).json(errorBody);
+      }
+      return next(error);
+    }
+  }
+);
+
+/**
+ * The calling key's watches. Anonymous watches aren't listed, since they
+ * would be visible to every anonymous caller.
+ */
+watchesRouter.get("/watches", async (_req: Request, res: Response, next: NextFunction) => {
+  const apiKey = getRequestApiKey(res);
+  if (!apiKey) {
+    const errorBody = buildErrorResponse(
+      "UNAUTHORIZED",
+      "Listing watches requires an API key. Anonymous watches can be fetched by ID."
+    );
+    return res.status(401).json(errorBody);
+  }
+
+  try {
+    const watches = (await watchStore.list()).filter((watch) => watch.apiKeyId === apiKey.id);
+    return res.status(200).json({ watches: watches.map(toFolderWatchResponse) });
+  } catch (error: unknown) {
+    return next(error);
+  }
+});
+
+watchesRouter.get(
+  "/watches/:id",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const watch = await watchStore.get(req.params.id);
+      // Someone else's watch is reported as missing rather than forbidden
+      if (!watch || !isOwnWatch(watch, res)) {
+        return sendWatchNotFound(res, req.params.id);
+      }
+      return res.status(200).json(toFolderWatchResponse(watch));
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
+
+watchesRouter.delete(
+  "/watches/:id",
+  async (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+    try {
+      const watch = await watchStore.get(req.params.id);
+      if (!watch || !isOwnWatch(watch, res)) {
+        return sendWatchNotFound(res, req.params.id);
+      }
+      await deleteFolderWatch(watch.id);
+      return res.status(204).end();
+    } catch (error: unknown) {
+      return next(error);
+    }
+  }
+);
@@ -0,0 +1,40 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertSafeWebhookUrl, InvalidWebhookUrlError } from "./webhookDelivery";
+
+// IP literals only, so nothing here depends on DNS
+const PRIVATE_URLS = [
+  "http://127.0.0.1/hook",
+  "http://10.1.2.3/hook",
+  "http://100.64.0.1/hook",
+  "http://169.254.169.254/latest",
+  "http://172.16.0.1/hook",
+  "http://192.168.1.1/hook",
+  "http://198.18.0.1/hook",
+  "http://0.0.0.0/hook",
+  "http://[::1]/hook",
+  "http://[fd00::1]/hook",
+  "http://[fe80::1]/hook",
+  // IPv4-mapped IPv6, which URL rewrites to hex (::ffff:7f00:1)
+  "http://[::ffff:127.0.0.1]:4000/x",
+  "http://[::ffff:a9fe:a9fe]/latest",
+  "http://[::ffff:10.0.0.1]/hook",
+  // NAT64
+  "http://[64:ff9b::7f00:1]/hook",
+];
+
+const PUBLIC_URLS = ["https://93.184.215.14/hook", "https://[2606:4700:4700::1111]/hook"];
+
+describe("assertSafeWebhookUrl", () => {
+  for (const url of PRIVATE_URLS) {
+    it(`rejects ${url}`, async () => {
+      await assert.rejects(assertSafeWebhookUrl(url), InvalidWebhookUrlError);
+    });
+  }
+
+  for (const url of PUBLIC_URLS) {
+    it(`accepts ${url}`, async () => {
+      assert.equal((await assertSafeWebhookUrl(url)).href, url);
+    });
+  }
+});
@@ -0,0 +1,243 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { promises as dns } from "dns";
+import type { LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+import type { LookupFunction } from "net";
+import type { WebhookDeliveryStatus } from "./fileTypes";
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1000;
+const WEBHOOK_RETRY_MAX_MS = 60 * 1000;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const DELIVERY_ID_HEADER = "X-Webhook-Delivery";
+
+export class InvalidWebhookUrlError extends Error {
+  readonly code = "INVALID_REQUEST" as const;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidWebhookUrlError";
+  }
+}
+
+// ============================================================================
+// HELPERS: URL safety
+// ============================================================================
+
+// Loopback, private, link-local, CGNAT, benchmarking, NAT64 and multicast
+// ranges. BlockList also matches IPv4-mapped IPv6 (::ffff:7f00:1) against
+// the IPv4 rules.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  // Anything that isn't a plain IP literal can't be classified, so refuse it
+  return family === 0 || PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+};
+
+interface SafeWebhookTarget {
+  url: URL;
+  /** The checked addresses; null when private hosts are allowed */
+  addresses: LookupAddress[] | null;
+}
+
+const resolveSafeWebhookTarget = async (rawUrl: string): Promise<SafeWebhookTarget> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new InvalidWebhookUrlError("'webhookUrl' must be an absolute URL.");
+  }
+
+  const allowHttp = process.env.NODE_ENV !== "production";
+  if (url.protocol !== "https:" && !(allowHttp && url.protocol === "http:")) {
+    throw new InvalidWebhookUrlError("'webhookUrl' must use https.");
+  }
+  if (url.username || url.password) {
+    throw new InvalidWebhookUrlError("'webhookUrl' must not contain credentials.");
+  }
+
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true") {
+    return { url, addresses: null };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    const family = isIP(hostname);
+    addresses = family
+      ? [{ address: hostname, family }]
+      : await dns.lookup(hostname, { all: true });
+  } catch {
+    throw new InvalidWebhookUrlError(`Could not resolve webhook host '${hostname}'.`);
+  }
+
+  if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw new InvalidWebhookUrlError("'webhookUrl' must point to a public host.");
+  }
+  return { url, addresses };
+};
+
+/**
+ * Check that a webhook URL is http(s) and resolves only to public addresses,
+ * so watches can't be used to probe the server's internal network.
+ * Plain http is accepted outside production for local receivers.
+ */
+export const assertSafeWebhookUrl = async (rawUrl: string): Promise<URL> =>
+  (await resolveSafeWebhookTarget(rawUrl)).url;
+
+/**
+ * Agent that connects only to the addresses that were checked, so the host
+ * can't resolve to something else (DNS rebinding) between the check and the
+ * request
+ */
+const createPinnedAgent = (target: SafeWebhookTarget): http.Agent | undefined => {
+  const { addresses } = target;
+  if (!addresses) {
+    return undefined;
+  }
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+  return target.url.protocol === "https:"
+    ? new https.Agent({ lookup })
+    : new http.Agent({ lookup });
+};
+
+// ============================================================================
+// SIGNING & DELIVERY
+// ============================================================================
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, hex encoded. Receivers recompute it
+ * with the watch secret and compare it to the X-Webhook-Signature header
+ * (`sha256=<hex>`), rejecting stale timestamps to prevent replays.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: string,
+  body: string
+): string => createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+// Exponential backoff with full jitter
+const retryDelay = (attempt: number): number => {
+  const ceiling = Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1), WEBHOOK_RETRY_MAX_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// Client errors won't fix themselves, except rate limiting and timeouts
+const isRetryableStatus = (status: number): boolean =>
+  status >= 500 || status === 429 || status === 408;
+
+/**
+ * POST a signed JSON payload to a webhook, retrying network failures, 5xx
+ * and 429 responses with exponential backoff. Never throws; the outcome is
+ * returned so it can be shown on the watch.
+ */
+export const deliverWebhook = async (
+  webhookUrl: string,
+  secret: string,
+  deliveryId: string,
+  payload: unknown
+): Promise<WebhookDeliveryStatus> => {
+  const body = JSON.stringify(payload);
+  let attempts = 0;
+  let responseStatus: number | undefined;
+  let lastError = "";
+
+  while (attempts < WEBHOOK_MAX_ATTEMPTS) {
+    attempts++;
+    responseStatus = undefined;
+
+    try {
+      // Re-check on every attempt: DNS may have changed since registration
+      const target = await resolveSafeWebhookTarget(webhookUrl);
+      const agent = createPinnedAgent(target);
+
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const response = await axios.post(webhookUrl, body, {
+        timeout: WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+        // A proxy would resolve the host itself, bypassing the pinned address
+        proxy: false,
+        ...(agent ? { httpAgent: agent, httpsAgent: agent } : {}),
+        validateStatus: () => true,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "drive-scraper-webhooks/1.0",
+          [SIGNATURE_HEADER]: `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+          [TIMESTAMP_HEADER]: timestamp,
+          [DELIVERY_ID_HEADER]: deliveryId,
+        },
+      });
+
+      responseStatus = response.status;
+      if (response.status >= 200 && response.status < 300) {
+        return { state: "delivered", attempts, at: new Date().toISOString(), responseStatus };
+      }
+
+      lastError = `Webhook responded with HTTP ${response.status}.`;
+      if (!isRetryableStatus(response.status)) {
+        break;
+      }
+    } catch (error: unknown) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (error instanceof InvalidWebhookUrlError) {
+        break;
+      }
+    }
+
+    if (attempts < WEBHOOK_MAX_ATTEMPTS) {
+      await sleep(retryDelay(attempts));
+    }
+  }
+
+  return {
+    state: "failed",
+    attempts,
+    at: new Date().toISOString(),
+    responseStatus,
+    error: lastError,
+  };
+};
@@ -0,0 +1,139 @@
+import type { DriveFile } from "./fileTypes";
+
+// ============================================================================
+// INTERFACES & CUSTOM ERRORS
+// ============================================================================
+
+export type WorkspaceFileType = "document" | "spreadsheet" | "presentation" | "drawing";
+
+/** Preferred export format per Workspace type, e.g. { document: "pdf" } */
+export type ExportFormatPreferences = Partial<Record<WorkspaceFileType, string>>;
+
+export class InvalidExportFormatError extends Error {
+  public readonly code: "INVALID_REQUEST" = "INVALID_REQUEST";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidExportFormatError";
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WORKSPACE_MIME_TYPES: Record<string, WorkspaceFileType> = {
+  "application/vnd.google-apps.document": "document",
+  "application/vnd.google-apps.spreadsheet": "spreadsheet",
+  "application/vnd.google-apps.presentation": "presentation",
+  "application/vnd.google-apps.drawing": "drawing",
+};
+
+/** First entry is the default format for the type */
+export const WORKSPACE_EXPORT_FORMATS: Record<WorkspaceFileType, readonly string[]> = {
+  document: ["docx", "pdf", "odt", "rtf", "txt", "html", "epub"],
+  spreadsheet: ["xlsx", "csv", "pdf", "ods", "tsv"],
+  presentation: ["pptx", "pdf", "odp", "txt"],
+  drawing: ["png", "pdf", "jpeg", "svg"],
+};
+
+const EXPORT_URL_BUILDERS: Record<WorkspaceFileType, (id: string, format: string) => string> = {
+  document: (id, format) =>
+    `https://docs.google.com/document/d/${encodeURIComponent(id)}/export?format=${format}`,
+  spreadsheet: (id, format) =>
+    `https://docs.google.com/spreadsheets/d/${encodeURIComponent(id)}/export?format=${format}`,
+  presentation: (id, format) =>
+    `https://docs.google.com/presentation/d/${encodeURIComponent(id)}/export/${format}`,
+  drawing: (id, format) =>
+    `https://docs.google.com/drawings/d/${encodeURIComponent(id)}/export/${format}`,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Own keys only: "constructor" and friends are not Workspace MIME types
+export const getWorkspaceFileType = (mimeType: string): WorkspaceFileType | null =>
+  Object.prototype.hasOwnProperty.call(WORKSPACE_MIME_TYPES, mimeType)
+    ? WORKSPACE_MIME_TYPES[mimeType]
+    : null;
+
+/**
+ * Export links keyed by format (e.g. { docx, pdf, odt }) for Workspace
+ * files, or null for regular uploaded files
+ */
+export const buildExportLinks = (
+  id: string,
+  mimeType: string
+): Record<string, string> | null => {
+  const type = getWorkspaceFileType(mimeType);
+  if (!type) {
+    return null;
+  }
+
+  const links: Record<string, string> = {};
+  for (const format of WORKSPACE_EXPORT_FORMATS[type]) {
+    links[format] = EXPORT_URL_BUILDERS[type](id, format);
+  }
+  return links;
+};
+
+/**
+ * The export URL for the caller's preferred format, falling back to the
+ * type's default format
+ */
+export const resolveExportUrl = (
+  file: Pick<DriveFile, "mimeType" | "exportLinks">,
+  preferences: ExportFormatPreferences = {}
+): string | null => {
+  const type = getWorkspaceFileType(file.mimeType);
+  if (!type || !file.exportLinks) {
+    return null;
+  }
+  const format = preferences[type] ?? WORKSPACE_EXPORT_FORMATS[type][0];
+  return file.exportLinks[format] ?? null;
+};
+
+export const applyExportPreferences = (
+  files: DriveFile[],
+  preferences: ExportFormatPreferences | undefined
+): DriveFile[] => {
+  if (!preferences || Object.keys(preferences).length === 0) {
+    return files;
+  }
+  return files.map((file) =>
+    file.exportLinks ? { ...file, exportUrl: resolveExportUrl(file, preferences) } : file
+  );
+};
+
+/**
+ * Validate an `exportFormats` object from a request body
+ * Throws InvalidExportFormatError with a client-facing message
+ */
+export const parseExportFormatPreferences = (
+  value: unknown
+): ExportFormatPreferences | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidExportFormatError("'exportFormats' must be an object.");
+  }
+
+  const preferences: ExportFormatPreferences = {};
+  for (const [type, format] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(WORKSPACE_EXPORT_FORMATS, type)) {
+      throw new InvalidExportFormatError(
+        `Unknown Workspace type '${type}' in 'exportFormats'. Expected one of: ${Object.keys(WORKSPACE_EXPORT_FORMATS).join(", ")}.`
+      );
+    }
+    const allowed = WORKSPACE_EXPORT_FORMATS[type as WorkspaceFileType];
+    if (typeof format !== "string" || !allowed.includes(format)) {
+      throw new InvalidExportFormatError(
+        `'exportFormats.${type}' must be one of: ${allowed.join(", ")}.`
+      );
+    }
+    preferences[type as WorkspaceFileType] = format;
+  }
+  return preferences;
+};
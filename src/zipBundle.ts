@@ -0,0 +1,457 @@
+import archiver from "archiver";
+import axios from "axios";
+import type { Readable, Writable } from "stream";
+import { Transform } from "stream";
+import type { DriveFile } from "./fileTypes";
+import {
+  buildExportLinks,
+  getWorkspaceFileType,
+  resolveExportUrl,
+  WORKSPACE_EXPORT_FORMATS,
+} from "./workspaceExports";
+import type { ExportFormatPreferences } from "./workspaceExports";
+import { logger } from "./logger";
+
+const log = logger.child({ module: "zipBundle" });
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+/**
+ * A file to put in the archive. Only the ID and MIME type decide what gets
+ * downloaded; URLs sent by clients are never fetched.
+ */
+export interface ZipSourceFile {
+  id: string;
+  name?: string;
+  mimeType?: string;
+  path?: string;
+  size?: number | null;
+  resourceKey?: string;
+}
+
+export interface ZipBundleLimits {
+  maxFiles: number;
+  maxBytes: number;
+}
+
+export interface ZipBundleSummary {
+  filesAdded: number;
+  bytesWritten: number;
+  errors: ZipEntryError[];
+}
+
+interface ZipEntryError {
+  file: string;
+  reason: string;
+}
+
+// ============================================================================
+// CONSTANTS & ENVIRONMENT VARIABLES
+// ============================================================================
+
+export const DEFAULT_ZIP_LIMITS: ZipBundleLimits = {
+  maxFiles: Number(process.env.ZIP_MAX_FILES) || 500,
+  maxBytes: Number(process.env.ZIP_MAX_BYTES) || 2 * 1024 * 1024 * 1024, // 2 GiB
+};
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36";
+
+// Drive serves downloads and confirmation pages only from these hosts
+const ALLOWED_DOWNLOAD_HOSTS = [
+  "drive.google.com",
+  "docs.google.com",
+  "drive.usercontent.google.com",
+];
+
+const MAX_CONFIRM_PAGE_BYTES = 1024 * 1024;
+
+// Time to wait for Drive to answer, then for each chunk of the body
+const DOWNLOAD_TIMEOUT_MS = Number(process.env.ZIP_DOWNLOAD_TIMEOUT_MS) || 30_000;
+const DOWNLOAD_IDLE_TIMEOUT_MS = Number(process.env.ZIP_DOWNLOAD_IDLE_TIMEOUT_MS) || 60_000;
+
+class DownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+// ============================================================================
+// HELPERS: URLs & names
+// ============================================================================
+
+export const toZipSourceFile = (file: DriveFile): ZipSourceFile => ({
+  id: file.id,
+  name: file.name,
+  mimeType: file.mimeType,
+  path: file.path,
+  size: file.size,
+  resourceKey: typeof file.resourceKey === "string" ? file.resourceKey : undefined,
+});
+
+const isAllowedDownloadUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && ALLOWED_DOWNLOAD_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+const withResourceKey = (value: string, resourceKey?: string): string => {
+  if (!resourceKey) {
+    return value;
+  }
+  const url = new URL(value);
+  url.searchParams.set("resourcekey", resourceKey);
+  return url.toString();
+};
+
+const buildDownloadUrl = (
+  file: ZipSourceFile,
+  preferences: ExportFormatPreferences
+): { url: string; extension: string | null } => {
+  const mimeType = file.mimeType ?? "";
+  const type = getWorkspaceFileType(mimeType);
+  if (type) {
+    const exportLinks = buildExportLinks(file.id, mimeType);
+    const url = resolveExportUrl({ mimeType, exportLinks }, preferences);
+    const format = preferences[type] ?? WORKSPACE_EXPORT_FORMATS[type][0];
+    if (url) {
+      return { url: withResourceKey(url, file.resourceKey), extension: format };
+    }
+  }
+  return {
+    url: withResourceKey(
+      `https://drive.google.com/uc?export=download&id=${encodeURIComponent(file.id)}`,
+      file.resourceKey
+    ),
+    extension: null,
+  };
+};
+
+const sanitizeSegment = (segment: string): string =>
+  segment
+    .replace(/[\u0000-\u001f<>:"|?*\\/]/g, "_")
+    .replace(/^\.+$/, "_")
+    .trim()
+    .slice(0, 200);
+
+const buildEntryName = (
+  file: ZipSourceFile,
+  fileName: string,
+  extension: string | null,
+  usedNames: Set<string>
+): string => {
+  const folders = (file.path ?? "")
+    .split("/")
+    .map(sanitizeSegment)
+    .filter(Boolean);
+
+  let base = sanitizeSegment(fileName) || file.id;
+  if (extension && !base.toLowerCase().endsWith(`.${extension}`)) {
+    base = `${base}.${extension}`;
+  }
+
+  const dot = base.lastIndexOf(".");
+  const stem = dot > 0 ? base.slice(0, dot) : base;
+  const ext = dot > 0 ? base.slice(dot) : "";
+
+  let candidate = [...folders, base].join("/");
+  for (let i = 2; usedNames.has(candidate.toLowerCase()); i++) {
+    candidate = [...folders, `${stem} (${i})${ext}`].join("/");
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const parseContentDispositionName = (header: unknown): string | null => {
+  if (typeof header !== "string") {
+    return null;
+  }
+  const extended = /filename\*=UTF-8''([^;]+)/i.exec(header);
+  if (extended && extended[1]) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // fall through to the plain filename
+    }
+  }
+  const plain = /filename="?([^";]+)"?/i.exec(header);
+  return plain && plain[1] ? plain[1].trim() : null;
+};
+
+// ============================================================================
+// HELPERS: fetching
+// ============================================================================
+
+const readLimited = async (stream: Readable, limit: number): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    total += chunk.length;
+    if (total > limit) {
+      stream.destroy();
+      break;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+/**
+ * Large files get an HTML "can't scan for viruses" page instead of the
+ * content. Rebuild the confirmation URL from its download form.
+ */
+const findConfirmUrl = (html: string, pageUrl: string): string | null => {
+  const formMatch = /<form[^>]*id="download-form"[^>]*action="([^"]+)"[^>]*>([\s\S]*?)<\/form>/i.exec(html);
+  if (formMatch) {
+    const action = new URL(formMatch[1].replace(/&amp;/g, "&"), pageUrl);
+    const inputPattern = /<input[^>]*type="hidden"[^>]*name="([^"]+)"[^>]*value="([^"]*)"/gi;
+    let input: RegExpExecArray | null;
+    while ((input = inputPattern.exec(formMatch[2])) !== null) {
+      action.searchParams.set(input[1], input[2]);
+    }
+    return action.toString();
+  }
+
+  const confirmMatch = /confirm=([0-9A-Za-z_-]+)/.exec(html);
+  if (confirmMatch) {
+    const url = new URL(pageUrl);
+    url.searchParams.set("confirm", confirmMatch[1]);
+    return url.toString();
+  }
+
+  return null;
+};
+
+const fetchDownload = async (
+  url: string
+): Promise<{ stream: Readable; contentLength: number | null; fileName: string | null }> => {
+  let currentUrl = url;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const response = await axios.get<Readable>(currentUrl, {
+      responseType: "stream",
+      validateStatus: () => true,
+      maxRedirects: 5,
+      timeout: DOWNLOAD_TIMEOUT_MS,
+      headers: { "User-Agent": USER_AGENT },
+    });
+
+    if (response.status === 404) {
+      response.data.destroy();
+      throw new DownloadError("File not found or no longer available.");
+    }
+    if (response.status >= 400) {
+      response.data.destroy();
+      throw new DownloadError(`Download failed with HTTP ${response.status}.`);
+    }
+
+    const contentType = String(response.headers["content-type"] ?? "");
+    if (!contentType.includes("text/html")) {
+      const length = Number(response.headers["content-length"]);
+      return {
+        stream: response.data,
+        contentLength: Number.isFinite(length) && length > 0 ? length : null,
+        fileName: parseContentDispositionName(response.headers["content-disposition"]),
+      };
+    }
+
+    const html = await readLimited(response.data, MAX_CONFIRM_PAGE_BYTES);
+    const confirmUrl = attempt === 0 ? findConfirmUrl(html, currentUrl) : null;
+    if (!confirmUrl || !isAllowedDownloadUrl(confirmUrl)) {
+      throw new DownloadError(
+        "File is not publicly downloadable (Drive returned a web page instead of the file)."
+      );
+    }
+    currentUrl = confirmUrl;
+  }
+
+  throw new DownloadError("Could not get past Drive's download confirmation page.");
+};
+
+// ============================================================================
+// MAIN FUNCTION: streamZipBundle
+// ============================================================================
+
+/**
+ * Download each file in turn and stream it into a ZIP written to `output`.
+ * Files that can't be fetched are listed in an `errors.txt` entry instead of
+ * aborting the archive; a download that fails partway through rejects, since
+ * its entry is already half written. Call `isAborted` to stop early when the
+ * client disconnects.
+ */
+export async function streamZipBundle(
+  files: ZipSourceFile[],
+  output: Writable,
+  options: {
+    limits?: ZipBundleLimits;
+    exportFormats?: ExportFormatPreferences;
+    isAborted?: () => boolean;
+  } = {}
+): Promise<ZipBundleSummary> {
+  const limits = options.limits ?? DEFAULT_ZIP_LIMITS;
+  const preferences = options.exportFormats ?? {};
+  const errors: ZipEntryError[] = [];
+  const usedNames = new Set<string>(["errors.txt"]);
+  let filesAdded = 0;
+  let bytesWritten = 0;
+
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  let archiveError: Error | null = null;
+  archive.on("error", (error) => {
+    archiveError = error;
+  });
+  archive.on("warning", (warning) => {
+    log.warn("Archive warning", { error: warning });
+  });
+  archive.pipe(output);
+
+  for (const [index, file] of files.entries()) {
+    const label = file.name || file.id;
+
+    if (options.isAborted?.() || archiveError) {
+      break;
+    }
+
+    if (index >= limits.maxFiles) {
+      errors.push({
+        file: label,
+        reason: `Skipped: the archive is limited to ${limits.maxFiles} files.`,
+      });
+      continue;
+    }
+
+    if (typeof file.size === "number" && bytesWritten + file.size > limits.maxBytes) {
+      errors.push({ file: label, reason: "Skipped: total size limit reached." });
+      continue;
+    }
+
+    let appended = false;
+    try {
+      const { url, extension } = buildDownloadUrl(file, preferences);
+      const download = await fetchDownload(url);
+
+      if (
+        download.contentLength !== null &&
+        bytesWritten + download.contentLength > limits.maxBytes
+      ) {
+        download.stream.destroy();
+        errors.push({ file: label, reason: "Skipped: total size limit reached." });
+        continue;
+      }
+
+      const entryName = buildEntryName(
+        file,
+        file.name || download.fileName || file.id,
+        extension,
+        usedNames
+      );
+
+      // Stop copying once the byte budget is spent; the entry is then incomplete
+      let entryBytes = 0;
+      let truncated = false;
+      let idleTimer: NodeJS.Timeout | undefined;
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+          download.stream.destroy(
+            new DownloadError(`Download stalled for ${DOWNLOAD_IDLE_TIMEOUT_MS / 1000} seconds.`)
+          );
+        }, DOWNLOAD_IDLE_TIMEOUT_MS);
+      };
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          resetIdleTimer();
+          if (truncated) {
+            return callback();
+          }
+          if (bytesWritten + entryBytes + chunk.length > limits.maxBytes) {
+            truncated = true;
+            clearTimeout(idleTimer);
+            download.stream.destroy();
+            this.push(null);
+            return callback();
+          }
+          entryBytes += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      limiter.on("close", () => clearTimeout(idleTimer));
+
+      // pipe() doesn't forward failures, and a half-written entry can't be
+      // taken back out of the archive: fail the limiter so the archive errors
+      // out and the bundle is cut short instead of waiting forever
+      download.stream.on("error", (error) => limiter.destroy(error));
+      download.stream.on("close", () => {
+        if (!truncated && !download.stream.readableEnded) {
+          limiter.destroy(new DownloadError("Download was interrupted."));
+        }
+      });
+      resetIdleTimer();
+
+      const entryDone = new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+          archive.off("entry", onEntry);
+          archive.off("error", onError);
+          limiter.off("error", onError);
+        };
+        const onEntry = () => {
+          cleanup();
+          resolve();
+        };
+        const onError = (error: Error) => {
+          cleanup();
+          reject(error);
+        };
+        archive.on("entry", onEntry);
+        archive.on("error", onError);
+        limiter.on("error", onError);
+      });
+      archive.append(download.stream.pipe(limiter), { name: entryName });
+      appended = true;
+      await entryDone;
+
+      bytesWritten += entryBytes;
+      filesAdded++;
+      if (truncated) {
+        errors.push({
+          file: entryName,
+          reason: "Truncated: total size limit reached while downloading.",
+        });
+      }
+    } catch (error: unknown) {
+      if (appended) {
+        archive.abort();
+        throw error;
+      }
+      errors.push({
+        file: label,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (archiveError) {
+    archive.abort();
+    throw archiveError;
+  }
+
+  if (options.isAborted?.()) {
+    archive.abort();
+    return { filesAdded, bytesWritten, errors };
+  }
+
+  if (errors.length > 0) {
+    const report = errors.map((entry) => `${entry.file}\t${entry.reason}`).join("\n");
+    archive.append(`${report}\n`, { name: "errors.txt" });
+  }
+
+  await archive.finalize();
+
+  return { filesAdded, bytesWritten, errors };
+}